@@ -3,26 +3,111 @@
  */
 
 import axios, { AxiosError } from 'axios';
-import { SyncPayload, SyncResponse, LeaderboardEntry } from './types';
+import {
+  SyncPayload,
+  SyncResponse,
+  LeaderboardEntry,
+  DeviceCodeResponse,
+  DeviceTokenResponse,
+  SessionRecord,
+  SessionUploadResponse,
+  RemoteStatsResponse,
+  WhoamiResponse,
+  LeaderboardPeriod,
+  PublicLeaderboardResponse,
+} from './types';
 
 const PACKAGE_VERSION = '1.0.0';
 
 /**
- * Sync leaderboard entries to the API
+ * Error raised when an upload or other server request fails.
+ * `status` is the HTTP status, or undefined when no response was received.
+ */
+export class SyncError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'SyncError';
+  }
+
+  /**
+   * Network failures, rate limits and server errors are worth retrying later;
+   * other client errors (bad key, invalid payload) will fail the same way again.
+   */
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * Map a failed upload to a SyncError with an actionable message
+ */
+function toUploadError(error: unknown, action: string = 'Sync'): Error {
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError<any>;
+
+    if (axiosError.response) {
+      // Server responded with error status
+      const status = axiosError.response.status;
+      const data = axiosError.response.data;
+      const message = data?.error || data?.message || axiosError.message;
+
+      if (status === 401) {
+        return new SyncError(
+          'Authentication failed: your API key is invalid or has been revoked.\n' +
+          'Generate a new key on the setup page and run: ccrank setup <api-key>',
+          status
+        );
+      } else if (status === 403 && data?.error === 'Username mismatch') {
+        return new SyncError(
+          `Username mismatch: ${data.hint || 'the username does not match your API key'}.\n` +
+          'Remove or fix the --user flag (or re-run ccrank setup <api-key> to reinstall the hook).',
+          status
+        );
+      } else if (status === 403) {
+        return new SyncError('Access forbidden. Your API key may not have permission.', status);
+      } else if (status === 429) {
+        const retryAfter = axiosError.response.headers?.['retry-after'];
+        return new SyncError(
+          `Rate limit exceeded. Please try again ${retryAfter ? `in ${retryAfter} seconds` : 'later'}.`,
+          status
+        );
+      } else if (status >= 500) {
+        return new SyncError(`Server error: ${message}`, status);
+      } else {
+        return new SyncError(`API error (${status}): ${message}${data?.hint ? `\n${data.hint}` : ''}`, status);
+      }
+    } else if (axiosError.request) {
+      // Request made but no response received
+      return new SyncError('No response from server. Please check your network connection.');
+    }
+  }
+
+  return new Error(`${action} failed: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+/**
+ * Sync leaderboard entries to the API, authenticated with the user's API key.
+ * `username` is checked by the server against the key's owner; with `partial`
+ * the server only replaces the dates that are sent.
  */
 export async function syncToLeaderboard(
   entries: LeaderboardEntry[],
   apiKey: string,
-  apiEndpoint: string
+  apiEndpoint: string,
+  options: { username?: string; deviceId?: string; partial?: boolean; timeZone?: string } = {}
 ): Promise<SyncResponse> {
   const payload: SyncPayload = {
     entries,
     source: 'ccusage',
     version: PACKAGE_VERSION,
+    partial: options.partial,
+    deviceId: options.deviceId,
+    timeZone: options.timeZone,
   };
 
   try {
-    const response = await axios.post<SyncResponse>(apiEndpoint, payload, {
+    const response = await axios.post<SyncResponse & { count?: number }>(apiEndpoint, payload, {
+      params: options.username ? { user: options.username } : undefined,
       headers: {
         'Authorization': `Bearer ${apiKey}`,
         'Content-Type': 'application/json',
@@ -31,34 +116,174 @@ export async function syncToLeaderboard(
       timeout: 30000, // 30 second timeout
     });
 
+    return {
+      ...response.data,
+      entriesProcessed: response.data.entriesProcessed ?? response.data.count ?? 0,
+    };
+  } catch (error) {
+    throw toUploadError(error);
+  }
+}
+
+/**
+ * Upload a single session record, authenticated with the user's API key.
+ * Re-uploading a session (e.g. after it was resumed) replaces the earlier record.
+ */
+export async function uploadSession(
+  session: SessionRecord,
+  apiKey: string,
+  webUrl: string,
+  options: { deviceId?: string } = {}
+): Promise<SessionUploadResponse> {
+  try {
+    const response = await axios.post<SessionUploadResponse>(`${webUrl}/api/sessions`, {
+      session,
+      deviceId: options.deviceId,
+      version: PACKAGE_VERSION,
+    }, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+        'User-Agent': `ccrank/${PACKAGE_VERSION}`,
+      },
+      timeout: 30000,
+    });
     return response.data;
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError<any>;
-
-      if (axiosError.response) {
-        // Server responded with error status
-        const status = axiosError.response.status;
-        const message = axiosError.response.data?.message || axiosError.message;
-
-        if (status === 401) {
-          throw new Error('Authentication failed. Please check your API key.');
-        } else if (status === 403) {
-          throw new Error('Access forbidden. Your API key may not have permission.');
-        } else if (status === 429) {
-          throw new Error('Rate limit exceeded. Please try again later.');
-        } else if (status >= 500) {
-          throw new Error(`Server error: ${message}`);
-        } else {
-          throw new Error(`API error (${status}): ${message}`);
-        }
-      } else if (axiosError.request) {
-        // Request made but no response received
-        throw new Error('No response from server. Please check your network connection.');
-      }
+    throw toUploadError(error, 'Session upload');
+  }
+}
+
+/**
+ * Fetch the server's copy of the authenticated user's daily stats
+ */
+export async function fetchUserStats(
+  apiKey: string,
+  webUrl: string,
+  options: { since?: string; until?: string } = {}
+): Promise<RemoteStatsResponse> {
+  try {
+    const response = await axios.get<RemoteStatsResponse>(`${webUrl}/api/stats`, {
+      params: { since: options.since, until: options.until },
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'User-Agent': `ccrank/${PACKAGE_VERSION}`,
+      },
+      timeout: 30000,
+    });
+    return response.data;
+  } catch (error) {
+    throw toUploadError(error, 'Fetching stats');
+  }
+}
+
+/**
+ * Fetch the authenticated user's identity, ranks and server-side totals
+ */
+export async function fetchWhoami(apiKey: string, webUrl: string): Promise<WhoamiResponse> {
+  try {
+    const response = await axios.get<WhoamiResponse>(`${webUrl}/api/whoami`, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'User-Agent': `ccrank/${PACKAGE_VERSION}`,
+      },
+      timeout: 30000,
+    });
+    return response.data;
+  } catch (error) {
+    throw toUploadError(error, 'Fetching account details');
+  }
+}
+
+/**
+ * Fetch the public leaderboard (no API key needed)
+ */
+export async function fetchLeaderboard(
+  webUrl: string,
+  options: { period?: LeaderboardPeriod; team?: string; limit?: number } = {}
+): Promise<PublicLeaderboardResponse> {
+  try {
+    const response = await axios.get<PublicLeaderboardResponse>(`${webUrl}/api/leaderboard`, {
+      params: { period: options.period, team: options.team, limit: options.limit },
+      headers: { 'User-Agent': `ccrank/${PACKAGE_VERSION}` },
+      timeout: 30000,
+    });
+    return response.data;
+  } catch (error) {
+    throw toUploadError(error, 'Fetching the leaderboard');
+  }
+}
+
+/**
+ * Describe a failed request that is not an upload
+ */
+function describeRequestError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const data = error.response.data as any;
+      return `API error (${error.response.status}): ${data?.error || error.message}`;
+    }
+    if (error.request) {
+      return 'No response from server. Please check your network connection.';
     }
+  }
+  return error instanceof Error ? error.message : String(error);
+}
 
-    throw new Error(`Sync failed: ${error instanceof Error ? error.message : String(error)}`);
+/**
+ * Start a device-code login against the web app
+ */
+export async function requestDeviceCode(webUrl: string): Promise<DeviceCodeResponse> {
+  try {
+    const response = await axios.post<DeviceCodeResponse>(`${webUrl}/api/device/code`, {}, {
+      headers: { 'User-Agent': `ccrank/${PACKAGE_VERSION}` },
+      timeout: 30000,
+    });
+    return response.data;
+  } catch (error) {
+    throw new SyncError(`Failed to start login: ${describeRequestError(error)}`, axios.isAxiosError(error) ? error.response?.status : undefined);
+  }
+}
+
+/**
+ * Poll a device-code login once.
+ * Denied (403) and expired (410) logins are reported as statuses, not errors.
+ */
+export async function pollDeviceToken(webUrl: string, deviceCode: string): Promise<DeviceTokenResponse> {
+  try {
+    const response = await axios.post<DeviceTokenResponse>(`${webUrl}/api/device/token`, { deviceCode }, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': `ccrank/${PACKAGE_VERSION}`,
+      },
+      timeout: 30000,
+      validateStatus: status => status === 200 || status === 403 || status === 410,
+    });
+    return response.data;
+  } catch (error) {
+    throw new SyncError(`Failed to check login status: ${describeRequestError(error)}`, axios.isAxiosError(error) ? error.response?.status : undefined);
+  }
+}
+
+/**
+ * Revoke an API key on the server.
+ * Returns false when the key was already invalid or revoked.
+ */
+export async function revokeApiKey(webUrl: string, apiKey: string): Promise<boolean> {
+  try {
+    await axios.post(`${webUrl}/api/keys/revoke`, {}, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'User-Agent': `ccrank/${PACKAGE_VERSION}`,
+      },
+      timeout: 30000,
+    });
+    return true;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      return false;
+    }
+    throw new SyncError(`Failed to revoke API key: ${describeRequestError(error)}`, axios.isAxiosError(error) ? error.response?.status : undefined);
   }
 }
 
@@ -0,0 +1,481 @@
+/**
+ * Claude Code settings
+ * Reads and edits the SessionEnd hook that runs ccrank in ~/.claude/settings.json
+ * or, per project, in .claude/settings.json and .claude/settings.local.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createHash } from 'crypto';
+import { JSONPath, ParseError, applyEdits, modify, parse, printParseErrorCode } from 'jsonc-parser';
+import { DEFAULT_PROFILE, getConfigDir } from './config';
+import { CliError } from './output';
+
+export const CLAUDE_SETTINGS_DIR = path.join(os.homedir(), '.claude');
+export const CLAUDE_SETTINGS_FILE = path.join(CLAUDE_SETTINGS_DIR, 'settings.json');
+
+export const SETTINGS_SCOPES = ['user', 'project', 'local'] as const;
+export type SettingsScope = typeof SETTINGS_SCOPES[number];
+
+export interface ClaudeHook {
+  type: string;
+  command: string;
+  timeout?: number;
+}
+
+/**
+ * Current hook schema: commands grouped under a matcher
+ */
+export interface ClaudeHookMatcher {
+  matcher?: string;
+  hooks: ClaudeHook[];
+}
+
+export interface ClaudeSettings {
+  hooks?: {
+    // Legacy settings list commands directly instead of matcher groups
+    SessionEnd?: Array<ClaudeHookMatcher | ClaudeHook>;
+    [event: string]: any;
+  };
+  [key: string]: any;
+}
+
+/**
+ * Validate a --scope value
+ */
+export function resolveSettingsScope(scope: string | undefined): SettingsScope {
+  const value = scope || 'user';
+  if (!(SETTINGS_SCOPES as readonly string[]).includes(value)) {
+    throw new CliError(`Unknown settings scope: ${value}. Use one of: ${SETTINGS_SCOPES.join(', ')}`, 'INVALID_ARGUMENT');
+  }
+  return value as SettingsScope;
+}
+
+/**
+ * Find the repository root for project settings: the nearest directory
+ * containing .git or .claude, or the working directory if there is none.
+ */
+function findProjectRoot(cwd: string): string {
+  let dir = path.resolve(cwd);
+  while (true) {
+    if (fs.existsSync(path.join(dir, '.git')) || fs.existsSync(path.join(dir, '.claude'))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return path.resolve(cwd);
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Settings file for a scope:
+ * user → ~/.claude/settings.json, project → <repo>/.claude/settings.json,
+ * local → <repo>/.claude/settings.local.json (not checked in)
+ */
+export function getSettingsFile(scope: SettingsScope, cwd: string = process.cwd()): string {
+  if (scope === 'user') {
+    return CLAUDE_SETTINGS_FILE;
+  }
+  const dir = path.join(findProjectRoot(cwd), '.claude');
+  return path.join(dir, scope === 'project' ? 'settings.json' : 'settings.local.json');
+}
+
+/**
+ * Whether a hook command was installed by ccrank
+ */
+export function isCcrankHookCommand(command: string): boolean {
+  return /(^|[\s/])ccrank(@\S*)?\s+(sync|hook\s+session-end)\b/.test(command);
+}
+
+/**
+ * Build the hook command for a username.
+ * Project settings are shared with the whole team, so they leave the
+ * username to each member's own ccrank config. Several profiles share one
+ * hook that fans out with --profiles, each using its own stored username.
+ */
+export function getHookCommand(username: string, scope: SettingsScope = 'user', profiles: string[] = [DEFAULT_PROFILE]): string {
+  const base = 'npx github:Kisum/ccrank hook session-end --quiet';
+  if (profiles.length > 1) {
+    return `${base} --profiles ${profiles.join(',')}`;
+  }
+  const profile = profiles[0] !== DEFAULT_PROFILE ? ` --profile ${profiles[0]}` : '';
+  return scope === 'project' ? `${base}${profile}` : `${base}${profile} --user ${username}`;
+}
+
+/**
+ * Profiles an existing ccrank hook command syncs
+ */
+export function getHookProfiles(command: string): string[] {
+  const fanOut = command.match(/--profiles[=\s]+(\S+)/);
+  if (fanOut) {
+    return fanOut[1].split(',').filter(Boolean);
+  }
+  const single = command.match(/--profile[=\s]+(\S+)/);
+  return [single ? single[1] : DEFAULT_PROFILE];
+}
+
+function isMatcherGroup(entry: ClaudeHookMatcher | ClaudeHook): entry is ClaudeHookMatcher {
+  return Array.isArray((entry as ClaudeHookMatcher)?.hooks);
+}
+
+function isCcrankHook(hook: ClaudeHook): boolean {
+  return typeof hook?.command === 'string' && isCcrankHookCommand(hook.command);
+}
+
+/**
+ * Convert SessionEnd entries to the matcher schema.
+ * Legacy flat commands are each wrapped in a group that matches every session.
+ */
+export function migrateSessionEndHooks(entries: Array<ClaudeHookMatcher | ClaudeHook>): { entries: ClaudeHookMatcher[]; migrated: number } {
+  let migrated = 0;
+  const groups = entries.map(entry => {
+    if (isMatcherGroup(entry)) {
+      return entry;
+    }
+    migrated++;
+    return { matcher: '', hooks: [entry] };
+  });
+  return { entries: groups, migrated };
+}
+
+// Timestamped backups of each settings file, kept in the config dir so
+// none end up in a project's repository
+const BACKUPS_DIRNAME = 'settings-backups';
+const MAX_BACKUPS = 5;
+
+/**
+ * Parse JSON that may contain comments and trailing commas (JSONC),
+ * as Claude Code tolerates both in its settings files.
+ */
+export function parseJsonc(text: string): unknown {
+  const errors: ParseError[] = [];
+  const source = text.replace(/^\uFEFF/, '');
+  const value = parse(source, errors, { allowTrailingComma: true });
+  if (errors.length > 0) {
+    const line = source.slice(0, errors[0].offset).split('\n').length;
+    throw new SyntaxError(`${printParseErrorCode(errors[0].error)} at line ${line}`);
+  }
+  return value;
+}
+
+/**
+ * Read Claude settings file.
+ * Throws when the file exists but cannot be parsed, so that a write can
+ * never replace settings we failed to understand.
+ */
+export function readClaudeSettings(file: string = CLAUDE_SETTINGS_FILE): ClaudeSettings {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  const data = fs.readFileSync(file, 'utf-8');
+  if (data.trim() === '') {
+    return {};
+  }
+
+  let settings: unknown;
+  try {
+    settings = parseJsonc(data);
+  } catch (error) {
+    throw new CliError(
+      `Could not parse ${file}: ${error instanceof Error ? error.message : String(error)}\n` +
+      'Fix the file by hand and try again; it was left unchanged.',
+      'INVALID_CONFIG'
+    );
+  }
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new CliError(`${file} does not contain a JSON object; it was left unchanged.`, 'INVALID_CONFIG');
+  }
+  return settings as ClaudeSettings;
+}
+
+/**
+ * Copy the current settings file to a timestamped backup and prune old ones.
+ * Backups are named after the file and a hash of its path.
+ * Returns the backup path, or undefined when there was nothing to back up.
+ */
+function backupClaudeSettings(file: string): string | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+
+  const dir = path.join(getConfigDir(), BACKUPS_DIRNAME);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const hash = createHash('sha256').update(file).digest('hex').slice(0, 12);
+  const prefix = `${path.basename(file)}-${hash}-`;
+  const stamp = new Date().toISOString().replace(/[-:]/g, '');
+  const backupFile = path.join(dir, `${prefix}${stamp}`);
+  fs.copyFileSync(file, backupFile);
+  fs.chmodSync(backupFile, 0o600);
+
+  const backups = fs.readdirSync(dir)
+    .filter(name => name.startsWith(prefix))
+    .sort();
+  for (const name of backups.slice(0, Math.max(0, backups.length - MAX_BACKUPS))) {
+    fs.unlinkSync(path.join(dir, name));
+  }
+
+  return backupFile;
+}
+
+/**
+ * Paths whose values differ between two settings objects.
+ * Objects are compared key by key; arrays and other values are replaced whole.
+ */
+function changedPaths(before: any, after: any, jsonPath: JSONPath = []): Array<{ path: JSONPath; value: unknown }> {
+  const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(keys).flatMap(key => changedPaths(before[key], after[key], [...jsonPath, key]));
+  }
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path: jsonPath, value: after }];
+}
+
+/**
+ * Serialize settings as edits to the existing file text, so comments,
+ * key order and formatting outside the changed values are kept.
+ */
+function serializeSettings(settings: ClaudeSettings, existing: string): string {
+  const fresh = `${JSON.stringify(settings, null, 2)}\n`;
+  if (existing.trim() === '') {
+    return fresh;
+  }
+
+  let previous: unknown;
+  try {
+    previous = parseJsonc(existing);
+  } catch {
+    return fresh;
+  }
+
+  // Match the file's indentation
+  const indent = existing.match(/^[ \t]+(?=\S)/m)?.[0];
+  const insertSpaces = !indent?.startsWith('\t');
+  const formattingOptions = { insertSpaces, tabSize: insertSpaces && indent ? indent.length : 2, eol: '\n' };
+
+  let text = existing;
+  for (const change of changedPaths(previous, settings)) {
+    text = applyEdits(text, modify(text, change.path, change.value, { formattingOptions }));
+  }
+  return text;
+}
+
+/**
+ * Path a settings file is really stored at. Dotfile managers often symlink
+ * settings.json; renaming onto the link would replace it with a plain copy.
+ */
+function resolveSettingsTarget(file: string): string {
+  try {
+    return fs.realpathSync(file);
+  } catch {
+    // Missing file, or a link whose target doesn't exist yet
+    try {
+      return path.resolve(path.dirname(file), fs.readlinkSync(file));
+    } catch {
+      return file;
+    }
+  }
+}
+
+/**
+ * Write Claude settings file.
+ * Only the changed values are rewritten, so comments survive, and nothing is
+ * written when nothing changed. The previous file is backed up first, and the new content is written to a temporary
+ * file and renamed into place so a crash never leaves it half-written.
+ * Symlinked settings are written through to the link's target.
+ */
+export function writeClaudeSettings(settings: ClaudeSettings, file: string = CLAUDE_SETTINGS_FILE): { backupFile?: string } {
+  const target = resolveSettingsTarget(file);
+
+  // Ensure directory exists
+  const dir = path.dirname(target);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const existing = fs.existsSync(target) ? fs.readFileSync(target, 'utf-8') : '';
+  const content = serializeSettings(settings, existing);
+  if (content === existing && fs.existsSync(target)) {
+    return {};
+  }
+  const backupFile = backupClaudeSettings(target);
+
+  // Keep the existing file's permissions; shared project settings stay readable
+  const mode = fs.existsSync(target) ? fs.statSync(target).mode & 0o777 : file === CLAUDE_SETTINGS_FILE ? 0o600 : 0o644;
+  const tempFile = `${target}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tempFile, content, { mode });
+    fs.renameSync(tempFile, target);
+  } catch (error) {
+    if (fs.existsSync(tempFile)) {
+      fs.unlinkSync(tempFile);
+    }
+    throw new Error(`Failed to write ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return { backupFile };
+}
+
+/**
+ * Install the Claude Code SessionEnd hook in the settings file for a scope.
+ * Legacy flat entries are migrated to matcher groups along the way, and an
+ * existing ccrank hook is updated in place. When the existing hook syncs
+ * other profiles, the new profile is added to its fan-out.
+ */
+export function installClaudeHook(
+  username: string,
+  scope: SettingsScope = 'user',
+  profile: string = DEFAULT_PROFILE
+): { installed: boolean; alreadyExists: boolean; migrated: number; settingsFile: string; backupFile?: string } {
+  const settingsFile = getSettingsFile(scope);
+  const settings = readClaudeSettings(settingsFile);
+
+  // Initialize hooks structure if needed
+  if (!settings.hooks) {
+    settings.hooks = {};
+  }
+  const { entries, migrated } = migrateSessionEndHooks(settings.hooks.SessionEnd || []);
+
+  // Keep syncing the profiles the existing hooks already cover
+  const profiles = new Set<string>();
+  for (const group of entries) {
+    for (const existing of group.hooks) {
+      if (isCcrankHook(existing)) {
+        getHookProfiles(existing.command).forEach(name => profiles.add(name));
+      }
+    }
+  }
+  profiles.add(profile);
+
+  // New hook command with embedded username (single profile only)
+  const hook: ClaudeHook = {
+    type: 'command',
+    command: getHookCommand(username, scope, Array.from(profiles)),
+    timeout: 30,
+  };
+
+  // Replace the first ccrank hook and drop any duplicates
+  let alreadyExists = false;
+  const groups: ClaudeHookMatcher[] = [];
+  for (const group of entries) {
+    const hooks: ClaudeHook[] = [];
+    for (const existing of group.hooks) {
+      if (!isCcrankHook(existing)) {
+        hooks.push(existing);
+      } else if (!alreadyExists) {
+        hooks.push(hook);
+        alreadyExists = true;
+      }
+    }
+    if (hooks.length > 0) {
+      groups.push({ ...group, hooks });
+    }
+  }
+
+  if (!alreadyExists) {
+    groups.push({ matcher: '', hooks: [hook] });
+  }
+  settings.hooks.SessionEnd = groups;
+
+  const { backupFile } = writeClaudeSettings(settings, settingsFile);
+  return { installed: true, alreadyExists, migrated, settingsFile, backupFile };
+}
+
+/**
+ * Remove ccrank's SessionEnd hook entries, leaving every other hook untouched.
+ * Handles both the matcher schema and legacy flat entries; matcher groups and
+ * containers that only held ccrank's hooks are removed as well.
+ */
+export function removeClaudeHooks(settings: ClaudeSettings): { settings: ClaudeSettings; removed: ClaudeHook[] } {
+  const sessionEnd = settings.hooks?.SessionEnd;
+  if (!Array.isArray(sessionEnd)) {
+    return { settings, removed: [] };
+  }
+
+  const removed: ClaudeHook[] = [];
+  const remaining: Array<ClaudeHookMatcher | ClaudeHook> = [];
+  for (const entry of sessionEnd) {
+    if (isMatcherGroup(entry)) {
+      const hooks = entry.hooks.filter(hook => !isCcrankHook(hook));
+      removed.push(...entry.hooks.filter(isCcrankHook));
+      if (hooks.length === entry.hooks.length) {
+        remaining.push(entry);
+      } else if (hooks.length > 0) {
+        remaining.push({ ...entry, hooks });
+      }
+    } else if (isCcrankHook(entry)) {
+      removed.push(entry);
+    } else {
+      remaining.push(entry);
+    }
+  }
+
+  if (removed.length === 0) {
+    return { settings, removed };
+  }
+
+  const hooks: NonNullable<ClaudeSettings['hooks']> = { ...settings.hooks, SessionEnd: remaining };
+  if (remaining.length === 0) {
+    delete hooks.SessionEnd;
+  }
+
+  const result: ClaudeSettings = { ...settings, hooks };
+  if (Object.keys(hooks).length === 0) {
+    delete result.hooks;
+  }
+  return { settings: result, removed };
+}
+
+/**
+ * Line diff of two settings objects in unified style ("-" removed, "+" added).
+ * Only changed lines and two lines of context around them are returned.
+ */
+export function diffSettings(before: ClaudeSettings, after: ClaudeSettings): string[] {
+  const a = JSON.stringify(before, null, 2).split('\n');
+  const b = JSON.stringify(after, null, 2).split('\n');
+
+  // Longest common subsequence table; settings files are small
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: Array<{ op: ' ' | '-' | '+'; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: ' ', text: a[i++] });
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ op: '-', text: a[i++] });
+    } else {
+      lines.push({ op: '+', text: b[j++] });
+    }
+  }
+
+  const context = 2;
+  const output: string[] = [];
+  let skipped = false;
+  lines.forEach((line, index) => {
+    const nearChange = lines
+      .slice(Math.max(0, index - context), index + context + 1)
+      .some(near => near.op !== ' ');
+    if (nearChange) {
+      if (skipped && output.length > 0) output.push('  ...');
+      output.push(`${line.op} ${line.text}`);
+      skipped = false;
+    } else {
+      skipped = true;
+    }
+  });
+  return output;
+}
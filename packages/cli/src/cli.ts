@@ -4,26 +4,76 @@
  * Main CLI entry point for ccrank
  */
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import chalk from 'chalk';
 import { setupCommand } from './commands/setup';
+import { loginCommand } from './commands/login';
 import { syncCommand } from './commands/sync';
 import { statusCommand } from './commands/status';
+import { whoamiCommand } from './commands/whoami';
+import { leaderboardCommand } from './commands/leaderboard';
+import { topCommand } from './commands/top';
+import { historyCommand } from './commands/history';
 import { logoutCommand } from './commands/logout';
+import { uninstallCommand } from './commands/uninstall';
+import { queueCommand } from './commands/queue';
+import { configCommand } from './commands/config';
+import { hookCommand } from './commands/hook';
+import { exportCommand } from './commands/export';
+import { importCommand } from './commands/import';
+import { doctorCommand } from './commands/doctor';
+import { setActiveProfile } from './config';
+import { CliError, fail, isJsonMode, setJsonMode } from './output';
+
+// Known before parsing so that commander's own errors are reported as JSON too
+setJsonMode(process.argv.slice(2).includes('--json'));
 
 const program = new Command();
 
 program
   .name('ccrank')
   .description('CLI tool to sync Claude Code usage to the ccrank leaderboard')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--profile <name>', 'Config profile to use (default: $CCRANK_PROFILE or "default")')
+  .option('--json', 'Print a single JSON result object on stdout instead of text');
+
+// Usage errors exit with code 2; set before the commands are added so they inherit it
+program.exitOverride(error => {
+  if (['commander.helpDisplayed', 'commander.version', 'commander.help'].includes(error.code)) {
+    process.exit(error.exitCode);
+  }
+  fail('ccrank', new CliError(error.message.replace(/^error: /, ''), 'INVALID_ARGUMENT'), { printed: true });
+});
+if (isJsonMode()) {
+  program.configureOutput({ writeErr: () => {} });
+}
+
+// Select the profile before any command reads the config
+program.hook('preAction', (_program, command) => {
+  try {
+    setActiveProfile(program.opts().profile);
+  } catch (error) {
+    fail(command.name(), error);
+  }
+});
 
 // Setup command
 program
   .command('setup <api-key>')
   .description('Configure ccrank with your API key and install Claude Code hook')
-  .action(async (apiKey: string) => {
-    await setupCommand(apiKey);
+  .option('--scope <scope>', 'Settings to install the hook in (user, project, local)', 'user')
+  .action(async (apiKey: string, options) => {
+    await setupCommand(apiKey, options);
+  });
+
+// Login command
+program
+  .command('login')
+  .description('Sign in through the browser and install Claude Code hook')
+  .option('--no-browser', 'Print the login URL without opening a browser')
+  .option('--scope <scope>', 'Settings to install the hook in (user, project, local)', 'user')
+  .action(async (options) => {
+    await loginCommand(options);
   });
 
 // Sync command
@@ -31,20 +81,134 @@ program
   .command('sync')
   .description('Upload Claude Code usage stats to the leaderboard')
   .option('--stdin', 'Read JSON from stdin (pipe from ccusage)')
-  .option('--period <period>', 'Period to sync (daily, weekly, monthly)', 'daily')
+  .option('--period <period>', 'Period to sync (daily, weekly, monthly; weekly and monthly rankings use daily totals)', 'daily')
   .option('--dry-run', 'Show what would be synced without uploading')
   .option('--quiet', 'Suppress output (for hook usage)')
   .option('--user <username>', 'Username (if not configured)')
+  .option('--source <source>', 'Usage data source (ccusage, native)')
+  .option('--full', 'Re-upload all days instead of only those changed since the last sync')
+  .option('--profiles <names>', 'Sync several profiles in turn (comma-separated, or "all")')
+  .addOption(new Option('--deferred <request-id>', 'Wait for a hook request to settle before syncing').hideHelp())
   .action(async (options) => {
     await syncCommand(options);
   });
 
+// Hook command (run by Claude Code, not by hand)
+program
+  .command('hook <event>')
+  .description('Handle a Claude Code hook event from its stdin payload (event: session-end)')
+  .option('--quiet', 'Suppress output (for hook usage)')
+  .option('--user <username>', 'Username (if not configured)')
+  .option('--profiles <names>', 'Upload to several profiles in turn (comma-separated, or "all")')
+  .action(async (event: string, options) => {
+    await hookCommand(event, options);
+  });
+
+// Export command
+program
+  .command('export')
+  .description('Write usage history as CSV, JSON or NDJSON (local data, or the leaderboard\'s copy)')
+  .option('--format <format>', 'Output format (csv, json, ndjson)', 'csv')
+  .option('--since <date>', 'First date to include (YYYY-MM-DD)')
+  .option('--until <date>', 'Last date to include (YYYY-MM-DD)')
+  .option('--source <source>', 'local: your usage data before redaction; remote: what the leaderboard stores', 'local')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action(async (options) => {
+    await exportCommand(options);
+  });
+
+// Import command
+program
+  .command('import <files...>')
+  .description('Upload usage history from saved ccusage JSON reports or ccrank exports (JSON, NDJSON, CSV)')
+  .option('--since <date>', 'First date to import (YYYY-MM-DD)')
+  .option('--until <date>', 'Last date to import (YYYY-MM-DD)')
+  .option('--dry-run', 'Show what would be uploaded without uploading')
+  .option('--device-id <id>', 'Upload under another device ID, e.g. to keep an old machine\'s history apart')
+  .option('--profiles <names>', 'Upload to several profiles in turn (comma-separated, or "all")')
+  .action(async (files: string[], options) => {
+    await importCommand(files, options);
+  });
+
 // Status command
 program
   .command('status')
   .description('Show current authentication status')
+  .option('--remote', 'Also ask the server for your account, last upload, ranks and stored days')
+  .action(async (options) => {
+    await statusCommand(options);
+  });
+
+// Whoami command
+program
+  .command('whoami')
+  .description('Show the account your API key belongs to, its ranks and what the server holds')
   .action(async () => {
-    await statusCommand();
+    await whoamiCommand();
+  });
+
+// History command
+program
+  .command('history')
+  .description('Chart your local usage by day, week or month (offline; nothing is uploaded)')
+  .option('--by <bucket>', 'Group by day, week or month', 'day')
+  .option('--since <date>', 'First date (YYYY-MM-DD; default: 30 days, 12 weeks or 12 months back)')
+  .option('--until <date>', 'Last date (YYYY-MM-DD; default: today)')
+  .option('--chart <metric>', 'Metric to draw bars for (cost, tokens)', 'cost')
+  .option('--source <source>', 'Usage data source (ccusage, native)')
+  .action(async (options) => {
+    await historyCommand(options);
+  });
+
+// Leaderboard command
+program
+  .command('leaderboard')
+  .description('Show the leaderboard in the terminal')
+  .option('--period <period>', 'Period (daily, weekly, monthly, alltime)', 'weekly')
+  .option('--team <team>', 'Only this Slack team (workspace name or team ID)')
+  .option('--limit <n>', 'Number of entries (1-100)', '25')
+  .action(async (options) => {
+    await leaderboardCommand(options);
+  });
+
+// Top command
+program
+  .command('top')
+  .description('Full-screen leaderboard that refreshes itself (1-4 switch period, r refresh, q quit)')
+  .option('--period <period>', 'Period to start with (daily, weekly, monthly, alltime)', 'weekly')
+  .option('--team <team>', 'Only this Slack team (workspace name or team ID)')
+  .option('--limit <n>', 'Number of entries (default: as many as fit)')
+  .option('--interval <seconds>', 'Seconds between refreshes', '30')
+  .action(async (options) => {
+    await topCommand(options);
+  });
+
+// Doctor command
+program
+  .command('doctor')
+  .description('Check the hook, data source, time zone, API key and last sync, and suggest fixes')
+  .option('--fix', 'Reinstall the Claude Code hook if it is missing or out of date')
+  .action(async (options) => {
+    await doctorCommand(options);
+  });
+
+// Queue command
+program
+  .command('queue [action] [id]')
+  .description('List, retry or drop uploads waiting to be retried (action: list, retry, drop)')
+  .option('--all', 'With drop: remove every pending upload')
+  .action(async (action: string | undefined, id: string | undefined, options) => {
+    await queueCommand(action, id, options);
+  });
+
+// Config command
+program
+  .command('config [action] [key] [value]')
+  .description('Show or change settings of the active profile (action: list, get, set, unset, profiles)')
+  .option('--show-secret', 'With get or list: print secret values (the API key) in full')
+  .addHelpText('after', '\nEnvironment overrides: CCRANK_API_KEY, CCRANK_ENDPOINT, CCRANK_PROFILE, CCRANK_CONFIG_DIR (also honors XDG_CONFIG_HOME)')
+  .action(async (action: string | undefined, key: string | undefined, value: string | undefined, options) => {
+    await configCommand(action, key, value, options);
   });
 
 // Logout command
@@ -55,18 +219,32 @@ program
     await logoutCommand();
   });
 
+// Uninstall command
+program
+  .command('uninstall')
+  .description('Remove the Claude Code hook and stored credentials')
+  .option('--purge', 'Also clear the sync ledger and pending uploads')
+  .option('--revoke', 'Revoke the API key on the server without asking')
+  .option('--no-revoke', 'Keep the API key active on the server')
+  .option('-y, --yes', 'Do not prompt (the key is kept unless --revoke is given)')
+  .option('--dry-run', 'Show what would change without modifying anything')
+  .option('--scope <scope>', 'Settings to remove the hook from (user, project, local)', 'user')
+  .action(async (options) => {
+    await uninstallCommand(options);
+  });
+
 // Handle unknown commands
 program.on('command:*', () => {
   console.error(chalk.red('\nInvalid command: %s\n'), program.args.join(' '));
   console.log('See --help for a list of available commands.\n');
-  process.exit(1);
+  fail('ccrank', new CliError(`Invalid command: ${program.args.join(' ')}`, 'INVALID_ARGUMENT'), { printed: true });
 });
 
 // Show help if no command provided
 if (process.argv.length === 2) {
   program.outputHelp();
   console.log('\nQuick start:');
-  console.log(chalk.cyan('  1. ccrank setup <your-api-key>'));
+  console.log(chalk.cyan('  1. ccrank login'));
   console.log(chalk.cyan('  2. ccrank sync'));
   console.log(chalk.gray('\nAfter setup, usage is synced automatically after each Claude Code session.\n'));
 }
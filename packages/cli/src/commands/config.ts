@@ -0,0 +1,176 @@
+/**
+ * Config command - read and change ccrank settings
+ */
+
+import chalk from 'chalk';
+import {
+  CONFIG_KEYS,
+  DEFAULT_MIN_SYNC_INTERVAL,
+  DEFAULT_SYNC_DEBOUNCE,
+  getActiveProfile,
+  getApiEndpoint,
+  getConfigFile,
+  getDeviceId,
+  getEnvOverride,
+  listProfiles,
+  readConfig,
+  readConfigFile,
+  writeConfig,
+} from '../config';
+import { getTimeZone } from '../timezone';
+import { CliError, emitResult, fail } from '../output';
+import { Config } from '../types';
+
+/**
+ * Look up a config key by name, exiting on unknown keys
+ */
+function requireKey(key: string | undefined): keyof Config {
+  if (!key || !(key in CONFIG_KEYS)) {
+    console.error(chalk.red(`\nError: ${key ? `Unknown config key: ${key}` : 'Specify a config key.'}\n`));
+    console.log(`Keys: ${Object.keys(CONFIG_KEYS).join(', ')}\n`);
+    fail('config', new CliError(key ? `Unknown config key: ${key}` : 'Specify a config key.', 'INVALID_ARGUMENT'), { printed: true });
+  }
+  return key as keyof Config;
+}
+
+/**
+ * Effective value of a key, including defaults that are derived at runtime
+ */
+function getEffectiveValue(config: Config | null, key: keyof Config): string | undefined {
+  switch (key) {
+    case 'apiEndpoint':
+      return getApiEndpoint(config);
+    case 'source':
+      return config?.source || 'ccusage';
+    case 'deviceId':
+      return getDeviceId(config);
+    case 'timeZone':
+      return getTimeZone(config);
+    case 'syncDebounce':
+      return config?.syncDebounce ?? String(DEFAULT_SYNC_DEBOUNCE);
+    case 'minSyncInterval':
+      return config?.minSyncInterval ?? String(DEFAULT_MIN_SYNC_INTERVAL);
+    default:
+      return config?.[key];
+  }
+}
+
+/**
+ * Where a key's effective value comes from
+ */
+function describeOrigin(stored: Config | null, key: keyof Config): string {
+  const envName = getEnvOverride(key);
+  if (envName) return `env ${envName}`;
+  if (stored?.[key] !== undefined) return 'config file';
+  return 'default';
+}
+
+/**
+ * Hide a secret value: API keys keep their identifying prefix (as in
+ * `ccrank status`), anything else is hidden entirely
+ */
+function mask(value: string): string {
+  return value.startsWith('ccrank_') && value.length > 15 ? `${value.slice(0, 15)}…` : '***';
+}
+
+/**
+ * Config command handler
+ */
+export async function configCommand(action: string = 'list', key?: string, value?: string, options: { showSecret?: boolean } = {}): Promise<void> {
+  // Secrets stay out of scrollback and CI logs unless asked for
+  const reveal = (name: keyof Config, current: string) => CONFIG_KEYS[name].secret && !options.showSecret ? mask(current) : current;
+
+  try {
+    switch (action) {
+      case 'list': {
+        const config = readConfig();
+        const stored = readConfigFile();
+        console.log(chalk.bold(`\nccrank Config`) + chalk.gray(` (${getConfigFile()}, profile ${getActiveProfile()})\n`));
+        const values: Record<string, { value: string | null; origin: string }> = {};
+        for (const name of Object.keys(CONFIG_KEYS) as Array<keyof Config>) {
+          const current = getEffectiveValue(config, name);
+          const shown = current === undefined ? chalk.gray('(not set)') : reveal(name, current);
+          console.log(`  ${chalk.cyan(name.padEnd(14))} ${shown} ${chalk.gray(`[${describeOrigin(stored, name)}]`)}`);
+          values[name] = {
+            value: current === undefined ? null : reveal(name, current),
+            origin: describeOrigin(stored, name),
+          };
+        }
+        console.log();
+        emitResult('config', { action, profile: getActiveProfile(), configFile: getConfigFile(), values });
+        return;
+      }
+
+      case 'get': {
+        const name = requireKey(key);
+        const current = getEffectiveValue(readConfig(), name);
+        if (current === undefined) {
+          fail('config', new CliError(`${name} is not set`, 'NOT_FOUND'), { printed: true });
+        }
+        // Plain output so scripts can capture it
+        console.log(reveal(name, current));
+        emitResult('config', { action, key: name, value: reveal(name, current) });
+        return;
+      }
+
+      case 'set': {
+        const name = requireKey(key);
+        if (value === undefined) {
+          throw new CliError(`Specify a value: ccrank config set ${name} <value>`, 'INVALID_ARGUMENT');
+        }
+        const error = CONFIG_KEYS[name].validate(value);
+        if (error) {
+          throw new CliError(`Invalid ${name}: ${error}`, 'INVALID_ARGUMENT');
+        }
+        writeConfig({ ...readConfigFile(), [name]: value } as Config);
+        console.log(chalk.green(`\n✓ ${name} set to ${CONFIG_KEYS[name].secret ? mask(value) : value}`));
+        const envName = getEnvOverride(name);
+        if (envName) {
+          console.log(chalk.yellow(`  Note: ${envName} is set and takes precedence over the config file`));
+        }
+        console.log();
+        emitResult('config', { action, key: name, value: CONFIG_KEYS[name].secret ? mask(value) : value, overriddenBy: envName || null });
+        return;
+      }
+
+      case 'unset': {
+        const name = requireKey(key);
+        const stored = readConfigFile();
+        if (!stored || stored[name] === undefined) {
+          console.log(chalk.gray(`\n${name} is not set in ${getConfigFile()}\n`));
+          emitResult('config', { action, key: name, removed: false });
+          return;
+        }
+        const { [name]: _removed, ...rest } = stored;
+        writeConfig(rest as Config);
+        console.log(chalk.green(`\n✓ ${name} unset\n`));
+        emitResult('config', { action, key: name, removed: true });
+        return;
+      }
+
+      case 'profiles': {
+        const profiles = listProfiles();
+        if (profiles.length === 0) {
+          console.log(chalk.gray('\nNo profiles configured. Run: ccrank login [--profile <name>]\n'));
+          emitResult('config', { action, profiles, active: getActiveProfile() });
+          return;
+        }
+        console.log(chalk.bold('\nccrank Profiles\n'));
+        for (const profile of profiles) {
+          const active = profile === getActiveProfile();
+          console.log(active ? chalk.green(`* ${profile}`) : `  ${profile}`);
+        }
+        console.log();
+        emitResult('config', { action, profiles, active: getActiveProfile() });
+        return;
+      }
+
+      default:
+        console.error(chalk.red(`\nError: Unknown config action: ${action}\n`));
+        console.log('Usage: ccrank config [list|get|set|unset|profiles] [key] [value]\n');
+        fail('config', new CliError(`Unknown config action: ${action}`, 'INVALID_ARGUMENT'), { printed: true });
+    }
+  } catch (error) {
+    fail('config', error);
+  }
+}
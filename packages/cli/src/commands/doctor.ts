@@ -0,0 +1,347 @@
+/**
+ * Doctor command - check every step between a Claude Code session and the leaderboard
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { readConfig, getApiEndpoint, getWebUrl, hasApiKey, getActiveProfile, getConfigFile } from '../config';
+import {
+  SETTINGS_SCOPES,
+  SettingsScope,
+  getHookProfiles,
+  getSettingsFile,
+  installClaudeHook,
+  readClaudeSettings,
+  removeClaudeHooks,
+  writeClaudeSettings,
+} from '../claudeSettings';
+import { loadUsageData, resolveDataSource } from '../sources';
+import { normalizeUsageReport, validateCCUsageData } from '../transformer';
+import { getLocalDate, getSystemTimeZone, getTimeZone, isValidTimeZone } from '../timezone';
+import { syncToLeaderboard, fetchUserStats, SyncError } from '../api';
+import { getLastSyncAt } from '../lock';
+import { listQueue } from '../queue';
+import { CliError, emitResult, fail, isJsonMode, toCliError } from '../output';
+import { checkCCUsage } from './status';
+import { Config } from '../types';
+
+type CheckStatus = 'pass' | 'warn' | 'fail';
+
+/**
+ * Result of one check, as reported by --json
+ */
+interface DoctorCheck {
+  id: string;
+  title: string;
+  status: CheckStatus;
+  message: string;
+  fix?: string; // What to run or change
+  fixed?: boolean; // Repaired by --fix
+}
+
+interface DoctorOptions {
+  fix?: boolean;
+}
+
+// How far back the server's copy is checked for recent uploads
+const REMOTE_WINDOW_DAYS = 30;
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  pass: chalk.green('✓'),
+  warn: chalk.yellow('⚠'),
+  fail: chalk.red('✗'),
+};
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+/**
+ * Find ccrank's SessionEnd hook in the user, project and local settings.
+ * Settings that can't be parsed are reported rather than skipped.
+ */
+function findHooks(): { hooks: Array<{ scope: SettingsScope; file: string; command: string }>; errors: string[] } {
+  const hooks: Array<{ scope: SettingsScope; file: string; command: string }> = [];
+  const errors: string[] = [];
+  for (const scope of SETTINGS_SCOPES) {
+    const file = getSettingsFile(scope);
+    try {
+      for (const hook of removeClaudeHooks(readClaudeSettings(file)).removed) {
+        hooks.push({ scope, file, command: hook.command });
+      }
+    } catch (error) {
+      errors.push(toCliError(error).message.split('\n')[0]);
+    }
+  }
+  return { hooks, errors };
+}
+
+/**
+ * Check the hook: installed, current, covering this profile and run as the
+ * right user. Repairs it in place with --fix.
+ */
+function checkHook(username: string | undefined, options: DoctorOptions): DoctorCheck {
+  const title = 'Claude Code hook';
+  const { hooks, errors } = findHooks();
+  if (errors.length > 0) {
+    return { id: 'hook', title, status: 'fail', message: errors.join('; '), fix: 'Fix the settings file by hand, then run: ccrank doctor --fix' };
+  }
+
+  const profile = getActiveProfile();
+  let problem: { status: CheckStatus; message: string } | undefined;
+  const hook = hooks[0];
+  if (!hook) {
+    problem = { status: 'fail', message: 'No SessionEnd hook runs ccrank, so nothing syncs after a session' };
+  } else {
+    const hookUser = hook.command.match(/--user[=\s]+(\S+)/)?.[1];
+    if (hookUser && username && hookUser !== username) {
+      problem = { status: 'fail', message: `The hook syncs as --user ${hookUser}, but this profile belongs to ${username}; the server rejects its uploads` };
+    } else if (!getHookProfiles(hook.command).includes(profile)) {
+      problem = { status: 'warn', message: `The hook in ${hook.file} doesn't sync the ${profile} profile` };
+    } else if (/ccrank(@\S*)?\s+sync\b/.test(hook.command)) {
+      problem = { status: 'warn', message: `The hook in ${hook.file} runs an older \`ccrank sync\` command that doesn't record sessions` };
+    } else if (hooks.length > 1) {
+      problem = { status: 'warn', message: `ccrank hooks are installed in several settings files (${hooks.map(h => h.scope).join(', ')}), so each session syncs more than once` };
+    }
+  }
+
+  if (!problem) {
+    return { id: 'hook', title, status: 'pass', message: `Installed in ${hook.file}` };
+  }
+  if (!username) {
+    return { id: 'hook', title, ...problem, fix: 'ccrank login' };
+  }
+
+  const scope = hook?.scope || 'user';
+  // Scopes are searched user first, so the duplicates are always project or local hooks
+  const duplicateScopes = Array.from(new Set(hooks.map(h => h.scope).filter(other => other !== scope)));
+  const removal = duplicateScopes.length > 0 ? ` and removes it from ${duplicateScopes.map(other => getSettingsFile(other)).join(', ')}` : '';
+  const fix = `ccrank doctor --fix (reinstalls the hook in ${getSettingsFile(scope)}${removal})`;
+  if (!options.fix) {
+    return { id: 'hook', title, ...problem, fix };
+  }
+
+  const result = installClaudeHook(username, scope, profile);
+  for (const other of duplicateScopes) {
+    const file = getSettingsFile(other);
+    try {
+      writeClaudeSettings(removeClaudeHooks(readClaudeSettings(file)).settings, file);
+    } catch (error) {
+      return {
+        id: 'hook',
+        title,
+        status: 'warn',
+        message: `${problem.message}; reinstalled in ${result.settingsFile}, but the hook in ${file} could not be removed: ${toCliError(error).message.split('\n')[0]}`,
+        fix: `ccrank uninstall --scope ${other}`,
+      };
+    }
+  }
+  const removed = duplicateScopes.length > 0 ? `, removed from ${duplicateScopes.join(', ')} settings` : '';
+  return { id: 'hook', title, status: 'pass', message: `${problem.message}; reinstalled in ${result.settingsFile}${removed}`, fixed: true };
+}
+
+/**
+ * Check that the data source runs and returns usage.
+ * Returns the latest local usage date for the later checks.
+ */
+async function checkDataSource(config: Config | null): Promise<{ check: DoctorCheck; latestDate?: string }> {
+  const source = resolveDataSource(undefined, config);
+  const title = source === 'native' ? 'Claude Code transcripts' : 'ccusage';
+
+  if (source === 'ccusage') {
+    const availability = checkCCUsage();
+    if (!availability.local && !availability.npx) {
+      return { check: { id: 'source', title, status: 'fail', message: 'ccusage is not installed and npx is not available', fix: 'npm install -g ccusage' } };
+    }
+  }
+
+  try {
+    const data = normalizeUsageReport(await loadUsageData(source, 'daily', { timeZone: getTimeZone(config) }));
+    if (!validateCCUsageData(data)) {
+      return { check: { id: 'source', title, status: 'fail', message: 'The usage data is not valid ccusage output', fix: 'npm install -g ccusage@latest' } };
+    }
+    if (data.daily.length === 0) {
+      return { check: { id: 'source', title, status: 'warn', message: 'No usage found yet', fix: 'Use Claude Code, then run: ccrank sync' } };
+    }
+    const latestDate = data.daily.map(day => day.date).sort().pop();
+    return { check: { id: 'source', title, status: 'pass', message: `${data.daily.length} day(s) of usage, latest ${latestDate}` }, latestDate };
+  } catch (error) {
+    const message = toCliError(error).message.split('\n')[0];
+    return {
+      check: {
+        id: 'source',
+        title,
+        status: 'fail',
+        message,
+        fix: source === 'native' ? 'ccrank config set source ccusage' : 'npm install -g ccusage, or: ccrank config set source native',
+      },
+    };
+  }
+}
+
+/**
+ * Check that usage dates land on the right day
+ */
+function checkTimeZone(config: Config | null, latestDate: string | undefined): DoctorCheck {
+  const title = 'Time zone';
+  const timeZone = getTimeZone(config);
+  if (config?.timeZone && !isValidTimeZone(config.timeZone)) {
+    return { id: 'timezone', title, status: 'fail', message: `${config.timeZone} is not a known time zone; using ${timeZone}`, fix: `ccrank config set timeZone ${getSystemTimeZone()}` };
+  }
+  const today = getLocalDate(timeZone);
+  if (latestDate && latestDate > today) {
+    return { id: 'timezone', title, status: 'warn', message: `Usage is dated ${latestDate}, after today (${today}) in ${timeZone}`, fix: `ccrank config set timeZone ${getSystemTimeZone()}` };
+  }
+  if (config?.timeZone && config.timeZone !== getSystemTimeZone()) {
+    return { id: 'timezone', title, status: 'warn', message: `Days are dated in ${timeZone}, but this system is set to ${getSystemTimeZone()}`, fix: 'ccrank config unset timeZone (if the system zone is right)' };
+  }
+  return { id: 'timezone', title, status: 'pass', message: `${timeZone}${config?.timeZone ? '' : ' (system)'}` };
+}
+
+/**
+ * Check the endpoint and the API key with an empty authenticated sync.
+ * Returns the username the server knows the key by.
+ */
+async function checkServer(config: Config): Promise<{ checks: DoctorCheck[]; username?: string }> {
+  const apiEndpoint = getApiEndpoint(config);
+  try {
+    const response = await syncToLeaderboard([], config.apiKey, apiEndpoint);
+    const checks: DoctorCheck[] = [
+      { id: 'endpoint', title: 'Endpoint', status: 'pass', message: `${apiEndpoint} is reachable` },
+    ];
+    if (config.username && response.username && config.username !== response.username) {
+      checks.push({
+        id: 'apiKey',
+        title: 'API key',
+        status: 'fail',
+        message: `The key belongs to ${response.username}, but the config says ${config.username}`,
+        fix: 'ccrank login',
+      });
+    } else {
+      checks.push({ id: 'apiKey', title: 'API key', status: 'pass', message: `Valid${response.username ? ` (${response.username})` : ''}` });
+    }
+    return { checks, username: response.username || config.username };
+  } catch (error) {
+    if (error instanceof SyncError && error.status === undefined) {
+      return {
+        checks: [{ id: 'endpoint', title: 'Endpoint', status: 'fail', message: `${apiEndpoint} did not respond`, fix: 'Check your network, or: ccrank config unset apiEndpoint' }],
+        username: config.username,
+      };
+    }
+    const endpoint: DoctorCheck = { id: 'endpoint', title: 'Endpoint', status: 'pass', message: `${apiEndpoint} is reachable` };
+    if (error instanceof SyncError && (error.status === 401 || error.status === 403)) {
+      return {
+        checks: [endpoint, { id: 'apiKey', title: 'API key', status: 'fail', message: 'The key is invalid or has been revoked', fix: 'ccrank login' }],
+        username: config.username,
+      };
+    }
+    return {
+      checks: [endpoint, { id: 'apiKey', title: 'API key', status: 'warn', message: `Could not be checked: ${toCliError(error).message.split('\n')[0]}` }],
+      username: config.username,
+    };
+  }
+}
+
+/**
+ * Check when the server last received data, against local usage and the outbox
+ */
+async function checkLastSync(config: Config, latestDate: string | undefined): Promise<DoctorCheck> {
+  const title = 'Last sync';
+  const lastSyncAt = getLastSyncAt();
+  const local = `last local sync ${lastSyncAt ? lastSyncAt.toLocaleString() : 'never'}`;
+
+  const pending = listQueue().filter(item => (item.profile || 'default') === getActiveProfile());
+  if (pending.length > 0) {
+    return { id: 'lastSync', title, status: 'warn', message: `${pending.length} upload(s) are waiting to be retried (${local})`, fix: 'ccrank queue retry' };
+  }
+
+  let days;
+  try {
+    ({ days } = await fetchUserStats(config.apiKey, getWebUrl(config), { since: daysAgo(REMOTE_WINDOW_DAYS) }));
+  } catch (error) {
+    return { id: 'lastSync', title, status: 'warn', message: `Could not read the server's copy: ${toCliError(error).message.split('\n')[0]} (${local})` };
+  }
+
+  if (days.length === 0) {
+    return {
+      id: 'lastSync',
+      title,
+      status: latestDate && latestDate >= daysAgo(REMOTE_WINDOW_DAYS) ? 'fail' : 'warn',
+      message: `The server holds no usage from the last ${REMOTE_WINDOW_DAYS} days (${local})`,
+      fix: 'ccrank sync',
+    };
+  }
+
+  const updatedAt = days.map(day => day.updatedAt).sort().pop()!;
+  const serverLatest = days.map(day => day.date).sort().pop()!;
+  const message = `Server last received data ${new Date(updatedAt).toLocaleString()}, up to ${serverLatest} (${local})`;
+  if (latestDate && latestDate > serverLatest) {
+    return { id: 'lastSync', title, status: 'warn', message: `${message}; local usage goes up to ${latestDate}`, fix: 'ccrank sync' };
+  }
+  return { id: 'lastSync', title, status: 'pass', message };
+}
+
+/**
+ * Doctor command handler
+ * Runs every check, prints pass/warn/fail with a suggested fix, and exits
+ * with CHECK_FAILED when any check fails.
+ */
+export async function doctorCommand(options: DoctorOptions = {}): Promise<void> {
+  const spinner = ora({ isSilent: isJsonMode() });
+  const checks: DoctorCheck[] = [];
+
+  try {
+    const config = readConfig();
+    spinner.start('Running checks...');
+
+    if (!config || !hasApiKey(config)) {
+      checks.push({
+        id: 'config',
+        title: 'Sign-in',
+        status: 'fail',
+        message: config?.username ? `No API key for ${config.username} (old username-only setup)` : 'Not signed in',
+        fix: 'ccrank login',
+      });
+    } else {
+      checks.push({ id: 'config', title: 'Sign-in', status: 'pass', message: `Profile ${getActiveProfile()} (${getConfigFile()})` });
+    }
+
+    let username = config?.username;
+    if (config && hasApiKey(config)) {
+      const server = await checkServer(config);
+      checks.push(...server.checks);
+      username = server.username;
+    }
+
+    checks.push(checkHook(username, options));
+
+    const { check: sourceCheck, latestDate } = await checkDataSource(config);
+    checks.push(sourceCheck);
+    checks.push(checkTimeZone(config, latestDate));
+
+    if (config && hasApiKey(config) && checks.every(check => check.id !== 'endpoint' || check.status === 'pass')) {
+      checks.push(await checkLastSync(config, latestDate));
+    }
+    spinner.stop();
+  } catch (error) {
+    spinner.fail('Checks failed');
+    fail('doctor', error, { result: { checks } });
+  }
+
+  console.log(chalk.bold('\nccrank Doctor\n'));
+  for (const check of checks) {
+    console.log(`${STATUS_ICONS[check.status]} ${chalk.bold(check.title)}: ${check.message}`);
+    if (check.fix && check.status !== 'pass') {
+      console.log(chalk.gray(`    Fix: ${check.fix}`));
+    }
+  }
+
+  const count = (status: CheckStatus) => checks.filter(check => check.status === status).length;
+  const summary = { pass: count('pass'), warn: count('warn'), fail: count('fail') };
+  console.log(chalk.gray(`\n${summary.pass} passed, ${summary.warn} warning(s), ${summary.fail} failed\n`));
+
+  if (summary.fail > 0) {
+    fail('doctor', new CliError(`${summary.fail} check(s) failed`, 'CHECK_FAILED'), { result: { checks, summary }, printed: true });
+  }
+  emitResult('doctor', { checks, summary });
+}
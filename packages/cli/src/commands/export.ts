@@ -0,0 +1,111 @@
+/**
+ * Export command - write local or leaderboard usage history as CSV, JSON or NDJSON
+ */
+
+import * as fs from 'fs';
+import chalk from 'chalk';
+import ora from 'ora';
+import { readConfig, requireAuth, getWebUrl, getProjectSalt } from '../config';
+import { fetchUserStats } from '../api';
+import { loadUsageData, resolveDataSource } from '../sources';
+import { describeUnsupportedReport, normalizeUsageReport, transformToLeaderboardEntries, validateCCUsageData } from '../transformer';
+import { attachProjectBreakdowns, getProjectSettings } from '../projects';
+import { getTimeZone } from '../timezone';
+import { EXPORT_FORMATS, ExportRow, filterByDate, formatExport, validateDateWindow } from '../export';
+import { CliError, emitResult, fail, isJsonMode } from '../output';
+import { ExportFormat } from '../types';
+
+const EXPORT_SOURCES = ['local', 'remote'] as const;
+
+interface ExportOptions {
+  format?: string;
+  since?: string;
+  until?: string;
+  source?: string;
+  output?: string;
+}
+
+/**
+ * Leaderboard entries built from local usage data, before privacy redaction
+ */
+async function loadLocalEntries(): Promise<ExportRow[]> {
+  const config = readConfig();
+  const projectSettings = getProjectSettings(config);
+  const data = normalizeUsageReport(await loadUsageData(resolveDataSource(undefined, config), 'daily', {
+    projects: projectSettings.sharing !== 'off',
+    timeZone: getTimeZone(config),
+  }));
+
+  const unsupported = describeUnsupportedReport(data);
+  if (unsupported) {
+    throw new CliError(unsupported, 'INVALID_DATA');
+  }
+  if (!validateCCUsageData(data)) {
+    throw new CliError('The usage data is not valid ccusage output', 'INVALID_DATA');
+  }
+
+  const username = config?.username || '';
+  return attachProjectBreakdowns(
+    transformToLeaderboardEntries(data, username, getTimeZone(config)),
+    data,
+    projectSettings,
+    projectSettings.sharing === 'hashed' ? getProjectSalt(config, { save: false }) : ''
+  );
+}
+
+/**
+ * Export command handler
+ * Local rows are what sync would upload before redaction; remote rows are
+ * what the leaderboard holds, one per device and day.
+ */
+export async function exportCommand(options: ExportOptions): Promise<void> {
+  const spinner = ora({ isSilent: isJsonMode() });
+
+  try {
+    const format = (options.format || 'csv') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new CliError(`Unknown format: ${options.format}. Use one of: ${EXPORT_FORMATS.join(', ')}`, 'INVALID_ARGUMENT');
+    }
+    const source = options.source || 'local';
+    if (!(EXPORT_SOURCES as readonly string[]).includes(source)) {
+      throw new CliError(`Unknown source: ${source}. Use local or remote.`, 'INVALID_ARGUMENT');
+    }
+    const windowError = validateDateWindow(options.since, options.until);
+    if (windowError) {
+      throw new CliError(windowError, 'INVALID_ARGUMENT');
+    }
+
+    let rows: ExportRow[];
+    if (source === 'remote') {
+      const config = requireAuth();
+      spinner.start('Fetching stats from the leaderboard...');
+      const response = await fetchUserStats(config.apiKey, getWebUrl(config), { since: options.since, until: options.until });
+      rows = response.days;
+    } else {
+      spinner.start('Loading usage data...');
+      rows = filterByDate(await loadLocalEntries(), options.since, options.until);
+    }
+    spinner.stop();
+
+    const text = formatExport(rows, format);
+    if (options.output) {
+      fs.writeFileSync(options.output, text);
+      console.log(chalk.green(`\n✓ Exported ${rows.length} row(s) to ${options.output}\n`));
+    } else if (!isJsonMode()) {
+      // Data goes to stdout so it can be piped or redirected
+      process.stdout.write(text);
+    }
+
+    emitResult('export', {
+      source,
+      format,
+      rows: rows.length,
+      output: options.output || null,
+      // Without --output the rows themselves are the result
+      ...(options.output ? {} : { entries: rows }),
+    });
+  } catch (error) {
+    spinner.fail('Export failed');
+    fail('export', error);
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * History command - chart local usage by day, week or month (offline)
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { readConfig } from '../config';
+import { loadUsageData, resolveDataSource } from '../sources';
+import { describeUnsupportedReport, getSummaryStats, normalizeUsageReport, validateCCUsageData } from '../transformer';
+import { getLocalDate, getTimeZone } from '../timezone';
+import { filterByDate, validateDateWindow } from '../export';
+import { HISTORY_BUCKETS, HISTORY_WINDOW_DAYS, HistoryBucket, HistoryRow, bar, bucketUsage, sparkline } from '../history';
+import { formatCost, formatTokens } from '../leaderboard';
+import { CliError, emitResult, fail, isJsonMode } from '../output';
+
+const CHART_METRICS = ['cost', 'tokens'] as const;
+type ChartMetric = typeof CHART_METRICS[number];
+
+interface HistoryOptions {
+  by?: string;
+  since?: string;
+  until?: string;
+  source?: string;
+  chart?: string;
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(date + 'T00:00:00Z');
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+function formatBucket(key: string, bucketBy: HistoryBucket): string {
+  switch (bucketBy) {
+    case 'day':
+      return `${key} ${new Date(key + 'T00:00:00Z').toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' })}`;
+    case 'week':
+      return `Week of ${key}`;
+    case 'month':
+      return key.slice(0, 7);
+  }
+}
+
+/**
+ * History command handler
+ * Reads the configured data source only; nothing is sent to the server.
+ */
+export async function historyCommand(options: HistoryOptions): Promise<void> {
+  const spinner = ora({ isSilent: isJsonMode() });
+
+  try {
+    const bucketBy = (options.by || 'day') as HistoryBucket;
+    if (!HISTORY_BUCKETS.includes(bucketBy)) {
+      throw new CliError(`Unknown bucket: ${options.by}. Use one of: ${HISTORY_BUCKETS.join(', ')}`, 'INVALID_ARGUMENT');
+    }
+    const metric = (options.chart || 'cost') as ChartMetric;
+    if (!(CHART_METRICS as readonly string[]).includes(metric)) {
+      throw new CliError(`Unknown chart: ${options.chart}. Use cost or tokens.`, 'INVALID_ARGUMENT');
+    }
+    const windowError = validateDateWindow(options.since, options.until);
+    if (windowError) {
+      throw new CliError(windowError, 'INVALID_ARGUMENT');
+    }
+
+    const config = readConfig();
+    const source = resolveDataSource(options.source, config);
+
+    // Without --since, show the same window as the server's usage charts
+    const until = options.until || getLocalDate(getTimeZone(config));
+    const since = options.since || shiftDate(until, 1 - HISTORY_WINDOW_DAYS[bucketBy]);
+
+    spinner.start(source === 'native' ? 'Reading Claude Code transcripts...' : 'Loading ccusage data...');
+    const data = normalizeUsageReport(await loadUsageData(source, 'daily', { timeZone: getTimeZone(config) }));
+    const unsupported = describeUnsupportedReport(data);
+    if (unsupported) {
+      throw new CliError(unsupported, 'INVALID_DATA');
+    }
+    if (!validateCCUsageData(data)) {
+      throw new CliError('The usage data is not valid ccusage output', 'INVALID_DATA');
+    }
+    spinner.stop();
+
+    const daily = filterByDate(data.daily, since, until);
+    const rows = daily.length > 0 ? bucketUsage(daily, bucketBy, { since, until }) : [];
+    // ccusage's own summary covers its whole report, so totals are recomputed for the window
+    const totals = getSummaryStats({ daily });
+
+    console.log(chalk.bold(`\nUsage by ${bucketBy}, ${since} → ${until}`) + chalk.gray(` (${source})\n`));
+
+    if (rows.length === 0) {
+      console.log(chalk.yellow('No usage in this period.\n'));
+    } else {
+      const value = (row: HistoryRow) => metric === 'cost' ? row.totalCost : row.totalTokens;
+      const max = Math.max(...rows.map(value));
+      const labelWidth = Math.max('Period'.length, ...rows.map(row => formatBucket(row.key, bucketBy).length));
+      const barWidth = Math.max(10, Math.min(40, (process.stdout.columns || 80) - labelWidth - 26));
+
+      console.log(chalk.gray(`  ${'Period'.padEnd(labelWidth)}  ${'Tokens'.padStart(8)}  ${'Cost'.padStart(10)}`));
+      for (const row of rows) {
+        const label = formatBucket(row.key, bucketBy).padEnd(labelWidth);
+        const line = `  ${label}  ${formatTokens(row.totalTokens).padStart(8)}  ${formatCost(row.totalCost).padStart(10)}  ${chalk.cyan(bar(value(row), max, barWidth))}`;
+        console.log(row.days === 0 ? chalk.gray(line) : line);
+      }
+
+      console.log();
+      console.log(`  ${chalk.gray('Tokens'.padEnd(7))}${chalk.cyan(sparkline(rows.map(row => row.totalTokens)))}`);
+      console.log(`  ${chalk.gray('Cost'.padEnd(7))}${chalk.cyan(sparkline(rows.map(row => row.totalCost)))}`);
+      console.log();
+    }
+
+    console.log(chalk.gray(`  Days with usage: ${totals.totalDays}`));
+    console.log(chalk.gray(`  Total tokens: ${totals.totalTokens.toLocaleString()}`));
+    console.log(chalk.gray(`  Total cost: $${totals.totalCost.toFixed(2)}`));
+    console.log(chalk.gray(`  Models: ${totals.uniqueModels}`));
+    if (totals.totalDays > 0) {
+      console.log(chalk.gray(`  Average per active day: ${formatTokens(totals.totalTokens / totals.totalDays)} tokens, ${formatCost(totals.totalCost / totals.totalDays)}`));
+    }
+    console.log();
+
+    emitResult('history', { by: bucketBy, since, until, source, rows, totals });
+  } catch (error) {
+    spinner.fail('Could not load usage history');
+    fail('history', error);
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Hook command - entry points for Claude Code hooks
+ */
+
+import * as fs from 'fs';
+import { spawn } from 'child_process';
+import chalk from 'chalk';
+import { getActiveProfile, getApiEndpoint, getDeviceId, getProjectSalt, getWebUrl, hasApiKey, readConfig, setActiveProfile } from '../config';
+import { getTimeZone } from '../timezone';
+import { readSessionTranscript } from '../transcripts';
+import { transformToSessionRecord } from '../transformer';
+import { getPrivacySettings, redactSession } from '../redaction';
+import { getProjectSettings, labelProject, OTHER_PROJECT } from '../projects';
+import { uploadSession, SyncError } from '../api';
+import { enqueueSession } from '../queue';
+import { getSyncThrottle, requestSync } from '../lock';
+import { getSyncRequestKey, readStdin, resolveProfiles, runSync } from './sync';
+import { CliError, emitResult, fail, isJsonMode, toCliError } from '../output';
+import { SessionEndPayload } from '../types';
+
+export const HOOK_EVENTS = ['session-end'] as const;
+
+interface HookOptions {
+  quiet?: boolean;
+  user?: string;
+  profiles?: string;
+}
+
+/**
+ * Parse and check the SessionEnd payload
+ */
+function parseSessionEndPayload(input: string): SessionEndPayload {
+  let payload: any;
+  try {
+    payload = JSON.parse(input);
+  } catch {
+    throw new CliError('Expected the SessionEnd hook JSON payload on stdin', 'INVALID_DATA');
+  }
+  if (typeof payload?.session_id !== 'string' || !payload.session_id ||
+      typeof payload.transcript_path !== 'string' || !payload.transcript_path) {
+    throw new CliError('The hook payload is missing session_id or transcript_path', 'INVALID_DATA');
+  }
+  return payload as SessionEndPayload;
+}
+
+/**
+ * Outcome of uploading the session to one profile, as reported by --json
+ */
+interface SessionUploadResult {
+  profile: string;
+  status: 'uploaded' | 'queued' | 'skipped' | 'failed';
+  message?: string;
+  error?: { code: string; message: string };
+}
+
+/**
+ * Upload the session to the active profile
+ */
+async function uploadSessionForProfile(
+  payload: SessionEndPayload,
+  transcript: Awaited<ReturnType<typeof readSessionTranscript>>,
+  log: (...args: any[]) => void
+): Promise<SessionUploadResult> {
+  const profile = getActiveProfile();
+  const config = readConfig();
+  if (!config || !hasApiKey(config)) {
+    throw new CliError('Not authenticated. Run: ccrank login', 'NOT_AUTHENTICATED');
+  }
+
+  const { session, modelBreakdowns } = transformToSessionRecord(payload.session_id, transcript, payload.reason, getTimeZone(config));
+
+  // The same privacy settings as daily uploads
+  const redacted = redactSession(session, modelBreakdowns, getPrivacySettings(config));
+  if (!redacted) {
+    log(chalk.gray('  Session left out by privacy settings'));
+    return { profile, status: 'skipped', message: 'Left out by privacy settings' };
+  }
+
+  const projectSettings = getProjectSettings(config);
+  if (projectSettings.sharing !== 'off' && payload.cwd) {
+    redacted.project = labelProject(payload.cwd, projectSettings, projectSettings.sharing === 'hashed' ? getProjectSalt(config) : '') || OTHER_PROJECT;
+  }
+
+  const deviceId = getDeviceId(config);
+  try {
+    const response = await uploadSession(redacted, config.apiKey, getWebUrl(config), { deviceId });
+    log(chalk.green(`✓ ${response.message}`));
+    return { profile, status: 'uploaded', message: response.message };
+  } catch (error) {
+    if (!(error instanceof SyncError && error.retryable)) {
+      throw error;
+    }
+    // The payload and transcript are gone once the hook exits; keep the record for the next sync
+    const item = enqueueSession({
+      apiEndpoint: getApiEndpoint(config),
+      username: config.username || '',
+      deviceId,
+      session: redacted,
+      error: error.message,
+    });
+    log(chalk.yellow(`⚠ ${error.message}`));
+    log(chalk.yellow(`  Session queued for retry (${item.id}); a later sync delivers it (see: ccrank queue)`));
+    return { profile, status: 'queued', message: error.message };
+  }
+}
+
+/**
+ * Sync the daily totals once a burst of session ends settles.
+ * The waiting happens in a detached `ccrank sync --deferred` so the hook
+ * returns straight away; each hook run supersedes the previous one's request.
+ */
+async function scheduleSync(options: HookOptions, log: (...args: any[]) => void): Promise<Record<string, unknown>> {
+  const syncOptions = { quiet: options.quiet, user: options.user, profiles: options.profiles };
+  const requestId = requestSync(getSyncRequestKey(syncOptions));
+  const throttle = getSyncThrottle(readConfig());
+
+  if (throttle.debounceMs === 0 && throttle.minIntervalMs === 0) {
+    const { error, ...result } = await runSync({ ...syncOptions, deferred: requestId });
+    if (error) {
+      throw error;
+    }
+    return { scheduled: false, ...result };
+  }
+
+  const args = [process.argv[1], '--profile', getActiveProfile(), 'sync', '--quiet', '--deferred', requestId];
+  if (options.user) args.push('--user', options.user);
+  if (options.profiles) args.push('--profiles', options.profiles);
+  const child = spawn(process.execPath, args, { detached: true, stdio: 'ignore', windowsHide: true });
+  child.unref();
+  log(chalk.gray(`  Daily totals will sync in the background once sessions settle (${throttle.debounceMs / 1000}s)`));
+  return { scheduled: true, requestId };
+}
+
+/**
+ * Hook command handler.
+ * `session-end` reads the payload Claude Code passes to SessionEnd hooks,
+ * uploads a record for that session, then schedules a sync of the daily totals.
+ */
+export async function hookCommand(event: string, options: HookOptions): Promise<void> {
+  const quiet = options.quiet || isJsonMode();
+  const log = (...args: any[]) => {
+    if (!quiet) console.log(...args);
+  };
+  const logError = (...args: any[]) => {
+    if (!quiet) console.error(...args);
+  };
+
+  if (!(HOOK_EVENTS as readonly string[]).includes(event)) {
+    fail('hook', new CliError(`Unknown hook event: ${event}. Expected one of: ${HOOK_EVENTS.join(', ')}`, 'INVALID_ARGUMENT'), { quiet: options.quiet });
+  }
+
+  const sessions: SessionUploadResult[] = [];
+  let firstError: CliError | undefined;
+  const recordError = (error: unknown, profile?: string) => {
+    const cliError = toCliError(error);
+    firstError = firstError || cliError;
+    if (profile) {
+      sessions.push({ profile, status: 'failed', error: { code: cliError.code, message: cliError.message } });
+    }
+    logError(chalk.red(`✗ Session upload failed: ${cliError.message}`));
+  };
+
+  try {
+    const payload = parseSessionEndPayload(await readStdin());
+    if (!fs.existsSync(payload.transcript_path)) {
+      throw new CliError(`Transcript not found: ${payload.transcript_path}`, 'NOT_FOUND');
+    }
+    const transcript = await readSessionTranscript(payload.transcript_path);
+
+    if (transcript.records.length === 0) {
+      log(chalk.gray('No usage recorded in this session'));
+    } else if (!options.profiles) {
+      try {
+        sessions.push(await uploadSessionForProfile(payload, transcript, log));
+      } catch (error) {
+        recordError(error, getActiveProfile());
+      }
+    } else {
+      const originalProfile = getActiveProfile();
+      try {
+        for (const profile of resolveProfiles(options.profiles)) {
+          setActiveProfile(profile);
+          log(chalk.bold(`\n[${profile}]`));
+          try {
+            sessions.push(await uploadSessionForProfile(payload, transcript, log));
+          } catch (error) {
+            recordError(error, profile);
+          }
+        }
+      } finally {
+        setActiveProfile(originalProfile);
+      }
+    }
+  } catch (error) {
+    // The daily sync below still runs: it doesn't depend on the payload
+    recordError(error);
+  }
+
+  // Keep the daily totals behind the leaderboard up to date
+  let sync: Record<string, unknown> | undefined;
+  try {
+    sync = await scheduleSync(options, log);
+  } catch (error) {
+    const cliError = toCliError(error);
+    firstError = firstError || cliError;
+    logError(chalk.red(`✗ Could not sync: ${cliError.message}`));
+  }
+
+  const result = { event, sessions, sync };
+  if (firstError) {
+    // Don't exit with error code in quiet mode (for hook usage)
+    fail('hook', firstError, { quiet: options.quiet, result, printed: true });
+  }
+  emitResult('hook', result);
+}
@@ -0,0 +1,112 @@
+/**
+ * Import command - backfill usage history from saved reports and exports
+ */
+
+import * as fs from 'fs';
+import chalk from 'chalk';
+import { CONFIG_KEYS } from '../config';
+import { validateCCUsageData } from '../transformer';
+import { filterByDate, validateDateWindow } from '../export';
+import { ImportedFile, mergeImportedDays, parseImportFile } from '../import';
+import { CliError, emitResult, fail } from '../output';
+import { runSync } from './sync';
+
+interface ImportOptions {
+  since?: string;
+  until?: string;
+  dryRun?: boolean;
+  deviceId?: string;
+  profiles?: string;
+}
+
+function readImportFile(file: string): ImportedFile {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    throw new CliError(
+      code === 'ENOENT' ? `File not found: ${file}` : `Could not read ${file}: ${(error as Error).message}`,
+      code === 'ENOENT' ? 'NOT_FOUND' : 'UNKNOWN'
+    );
+  }
+  return parseImportFile(file, text);
+}
+
+/**
+ * Import command handler
+ * Files are merged by date, then uploaded through the normal sync path
+ * (privacy settings, ledger and retry queue included) as changed days only,
+ * so the rest of the history on the server is left alone.
+ */
+export async function importCommand(files: string[], options: ImportOptions): Promise<void> {
+  let summary: Record<string, unknown> = {};
+
+  try {
+    const windowError = validateDateWindow(options.since, options.until);
+    if (windowError) {
+      throw new CliError(windowError, 'INVALID_ARGUMENT');
+    }
+    const deviceError = options.deviceId !== undefined ? CONFIG_KEYS.deviceId.validate(options.deviceId) : undefined;
+    if (deviceError) {
+      throw new CliError(`--device-id: ${deviceError}`, 'INVALID_ARGUMENT');
+    }
+
+    const imported = files.map(readImportFile);
+    const { days: merged, conflicts } = mergeImportedDays(imported);
+    const days = filterByDate(merged, options.since, options.until);
+
+    summary = {
+      files: imported.map(({ file, format, days }) => ({ file, format, days: days.length })),
+      days: days.length,
+      conflicts,
+    };
+
+    console.log(chalk.bold('\nImporting usage history\n'));
+    for (const { file, format, days: fileDays, daysWithoutCost } of imported) {
+      const dates = fileDays.map(day => day.date).sort();
+      const range = dates.length > 1 ? `${dates[0]} → ${dates[dates.length - 1]}` : dates[0] || 'no days';
+      console.log(chalk.gray(`  ${file}: ${format}, ${fileDays.length} day(s) (${range})`));
+      if (daysWithoutCost > 0) {
+        console.log(chalk.yellow(`    ${daysWithoutCost} day(s) have no cost and are uploaded with the cost hidden`));
+      }
+    }
+
+    if (conflicts.length > 0) {
+      console.log(chalk.yellow(`\n  ${conflicts.length} day(s) differ between files; the copy with the most tokens is kept:`));
+      for (const conflict of conflicts) {
+        const copies = conflict.copies
+          .map(copy => `${copy.file} ${copy.totalTokens.toLocaleString()} tokens, ${copy.totalCost === undefined ? 'no cost' : `$${copy.totalCost.toFixed(2)}`}`)
+          .join('; ');
+        console.log(chalk.yellow(`    ${conflict.date}: kept ${conflict.kept} (${copies})`));
+      }
+    }
+
+    if (merged.length > days.length) {
+      console.log(chalk.gray(`\n  ${merged.length - days.length} day(s) outside --since/--until skipped`));
+    }
+
+    const report = { daily: days };
+    if (!validateCCUsageData(report)) {
+      throw new CliError('The imported data is not valid ccusage output', 'INVALID_DATA');
+    }
+    if (days.length === 0) {
+      console.log(chalk.yellow('\nNothing to import.\n'));
+      emitResult('import', { ...summary, results: [] });
+      return;
+    }
+
+    const { error, ...result } = await runSync({
+      report,
+      dryRun: options.dryRun,
+      deviceId: options.deviceId,
+      profiles: options.profiles,
+    });
+    if (error) {
+      fail('import', error, { result: { ...summary, ...result }, printed: true });
+    }
+    emitResult('import', { ...summary, ...result });
+  } catch (error) {
+    fail('import', error, { result: summary });
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Leaderboard command - show the standings in the terminal
+ */
+
+import ora from 'ora';
+import { readConfig, getWebUrl } from '../config';
+import { fetchLeaderboard } from '../api';
+import { LEADERBOARD_PERIODS, describeLeaderboard, renderLeaderboard } from '../leaderboard';
+import { CliError, emitResult, fail, isJsonMode } from '../output';
+import { LeaderboardPeriod } from '../types';
+
+export interface LeaderboardOptions {
+  period?: string;
+  team?: string;
+  limit?: string;
+}
+
+const MAX_LIMIT = 100;
+
+/**
+ * Validate --period and --limit
+ */
+export function resolveLeaderboardOptions(options: LeaderboardOptions, defaultLimit: number): { period: LeaderboardPeriod; team?: string; limit: number } {
+  const period = (options.period || 'weekly') as LeaderboardPeriod;
+  if (!LEADERBOARD_PERIODS.includes(period)) {
+    throw new CliError(`Unknown period: ${options.period}. Use one of: ${LEADERBOARD_PERIODS.join(', ')}`, 'INVALID_ARGUMENT');
+  }
+  const limit = options.limit !== undefined ? Number(options.limit) : defaultLimit;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new CliError(`--limit must be a whole number from 1 to ${MAX_LIMIT}`, 'INVALID_ARGUMENT');
+  }
+  return { period, team: options.team, limit };
+}
+
+/**
+ * Leaderboard command handler
+ * Reads the public leaderboard, so no API key is needed.
+ */
+export async function leaderboardCommand(options: LeaderboardOptions): Promise<void> {
+  const spinner = ora({ isSilent: isJsonMode() });
+
+  try {
+    const query = resolveLeaderboardOptions(options, 25);
+    const config = readConfig();
+
+    spinner.start('Fetching the leaderboard...');
+    const data = await fetchLeaderboard(getWebUrl(config), query);
+    spinner.stop();
+
+    console.log(`\n${describeLeaderboard(data)}\n`);
+    for (const line of renderLeaderboard(data, { highlight: config?.username, width: process.stdout.columns })) {
+      console.log(line);
+    }
+    console.log();
+
+    emitResult('leaderboard', { ...data });
+  } catch (error) {
+    spinner.fail('Could not load the leaderboard');
+    fail('leaderboard', error);
+  }
+}
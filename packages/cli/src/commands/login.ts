@@ -0,0 +1,124 @@
+/**
+ * Login command - sign in through the browser with a device code
+ * The API key is delivered straight to the CLI, never through the clipboard.
+ */
+
+import { spawn } from 'child_process';
+import chalk from 'chalk';
+import ora from 'ora';
+import { writeConfig, readConfig, getDeviceId, getWebUrl, getConfigFile, getActiveProfile } from '../config';
+import { requestDeviceCode, pollDeviceToken } from '../api';
+import { installClaudeHook, resolveSettingsScope } from '../claudeSettings';
+import { CliError, emitResult, fail, isJsonMode } from '../output';
+
+/**
+ * Open a URL in the default browser, ignoring failures
+ */
+function openBrowser(url: string): void {
+  const command = process.platform === 'darwin' ? 'open' : process.platform === 'win32' ? 'cmd' : 'xdg-open';
+  const args = process.platform === 'win32' ? ['/c', 'start', '""', url] : [url];
+  try {
+    const child = spawn(command, args, { stdio: 'ignore', detached: true });
+    child.on('error', () => {});
+    child.unref();
+  } catch {
+    // The URL is printed, so the user can open it by hand
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Login command handler
+ * Requests a device code, waits for approval on /activate, then saves the
+ * minted API key and installs the hook like `ccrank setup`.
+ */
+export async function loginCommand(options: { browser?: boolean; scope?: string }): Promise<void> {
+  const spinner = ora({ isSilent: isJsonMode() });
+
+  console.log(chalk.bold('\nccrank Login\n'));
+
+  try {
+    const scope = resolveSettingsScope(options.scope);
+    const existingConfig = readConfig();
+    const webUrl = getWebUrl(existingConfig);
+
+    spinner.start('Requesting login code...');
+    const device = await requestDeviceCode(webUrl);
+    spinner.stop();
+
+    console.log(`Open ${chalk.cyan(device.verificationUri)} and enter this code:\n`);
+    console.log(chalk.bold(`  ${device.userCode}\n`));
+    if (isJsonMode()) {
+      // stdout is reserved for the result, but the user still needs the code
+      process.stderr.write(`Open ${device.verificationUri} and enter this code: ${device.userCode}\n`);
+    }
+    if (options.browser !== false) {
+      openBrowser(device.verificationUriComplete);
+    }
+
+    spinner.start('Waiting for approval in the browser...');
+    const expiresAt = Date.now() + device.expiresIn * 1000;
+    let interval = device.interval * 1000;
+    let approved: { apiKey: string; username: string } | undefined;
+
+    while (!approved) {
+      if (Date.now() >= expiresAt) {
+        throw new CliError('Login code expired. Run: ccrank login', 'AUTH_REJECTED');
+      }
+      await sleep(interval);
+
+      const result = await pollDeviceToken(webUrl, device.deviceCode);
+      switch (result.status) {
+        case 'pending':
+          break;
+        case 'slow_down':
+          interval += 5000;
+          break;
+        case 'denied':
+          throw new CliError('Login was denied in the browser.', 'AUTH_REJECTED');
+        case 'expired':
+          throw new CliError('Login code expired. Run: ccrank login', 'AUTH_REJECTED');
+        case 'approved':
+          approved = { apiKey: result.apiKey, username: result.username };
+          break;
+      }
+    }
+    if (!approved.username) {
+      throw new CliError('The server did not return a username', 'API_ERROR');
+    }
+    spinner.succeed(`Signed in as ${approved.username}`);
+
+    // Save configuration, keeping settings like a custom endpoint or data source
+    spinner.start('Saving configuration...');
+    writeConfig({
+      ...existingConfig,
+      apiKey: approved.apiKey,
+      username: approved.username,
+      deviceId: getDeviceId(existingConfig),
+    });
+    spinner.succeed(`Configuration saved to ${getConfigFile()}`);
+
+    spinner.start('Installing Claude Code hook...');
+    const hookResult = installClaudeHook(approved.username, scope, getActiveProfile());
+    spinner.succeed(`Claude Code hook ${hookResult.alreadyExists ? 'updated' : 'installed'} in ${hookResult.settingsFile}`);
+    if (hookResult.migrated > 0) {
+      console.log(chalk.gray(`  Migrated ${hookResult.migrated} legacy SessionEnd hook(s) to the matcher format`));
+    }
+    if (hookResult.backupFile) {
+      console.log(chalk.gray(`  Previous settings backed up to ${hookResult.backupFile}`));
+    }
+
+    console.log(chalk.green('\n✓ Login completed successfully!\n'));
+    console.log('Your Claude Code usage will now be synced automatically after each session.');
+    console.log('You can also manually sync anytime with:');
+    console.log(chalk.cyan('  ccrank sync\n'));
+
+    emitResult('login', { username: approved.username, profile: getActiveProfile(), configFile: getConfigFile(), hook: { scope, ...hookResult } });
+  } catch (error) {
+    spinner.fail('Login failed');
+    fail('login', error);
+  }
+}
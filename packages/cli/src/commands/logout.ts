@@ -3,7 +3,8 @@
  */
 
 import chalk from 'chalk';
-import { clearConfig, readConfig } from '../config';
+import { clearConfig, readConfig, getConfigFile, getActiveProfile } from '../config';
+import { emitResult } from '../output';
 
 /**
  * Logout command handler
@@ -13,10 +14,13 @@ export async function logoutCommand(): Promise<void> {
 
   if (!config || !config.apiKey) {
     console.log(chalk.yellow('\nYou are not configured.\n'));
+    emitResult('logout', { loggedOut: false, profile: getActiveProfile() });
     return;
   }
 
   clearConfig();
   console.log(chalk.green('\n✓ Logged out successfully'));
-  console.log(chalk.gray('Credentials cleared from ~/.ccrank/config.json\n'));
+  console.log(chalk.gray(`Credentials cleared from ${getConfigFile()}`));
+  console.log(chalk.gray(`The Claude Code hook is still installed. Remove it with: ${chalk.cyan('ccrank uninstall')}\n`));
+  emitResult('logout', { loggedOut: true, profile: getActiveProfile(), configFile: getConfigFile() });
 }
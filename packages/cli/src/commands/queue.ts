@@ -0,0 +1,118 @@
+/**
+ * Queue command - inspect, retry or drop uploads waiting in the outbox
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { requireAuth } from '../config';
+import { listQueue, flushQueue, removeQueueItem, clearQueue } from '../queue';
+import { CliError, emitResult, fail, isJsonMode } from '../output';
+
+/**
+ * Print queued uploads
+ */
+function listQueuedUploads(): void {
+  const items = listQueue();
+
+  // Entries are summarised as dates; the payloads stay in the outbox files
+  emitResult('queue', {
+    action: 'list',
+    items: items.map(({ entries, session, ...item }) => ({
+      ...item,
+      dates: session ? [session.date] : entries.map(entry => entry.date).sort(),
+      sessionId: session?.sessionId,
+    })),
+  });
+
+  if (items.length === 0) {
+    console.log(chalk.green('\nNo pending uploads.\n'));
+    return;
+  }
+
+  console.log(chalk.bold(`\n${items.length} pending upload(s)\n`));
+  for (const item of items) {
+    console.log(chalk.cyan(`  ${item.id}`));
+    if (item.session) {
+      console.log(chalk.gray(`    Session ${item.session.sessionId} (${item.session.date})`));
+    } else {
+      const dates = item.entries.map(entry => entry.date).sort();
+      const range = dates.length > 1 ? `${dates[0]} → ${dates[dates.length - 1]}` : dates[0];
+      console.log(chalk.gray(`    ${item.entries.length} day(s): ${range} (${item.partial ? 'changed days' : 'full replace'})`));
+    }
+    console.log(chalk.gray(`    User: ${item.username} → ${item.apiEndpoint} (profile: ${item.profile || 'default'})`));
+    console.log(chalk.gray(`    Attempts: ${item.attempts}, next retry: ${new Date(item.nextAttemptAt).toLocaleString()}`));
+    if (item.lastError) {
+      console.log(chalk.yellow(`    Last error: ${item.lastError}`));
+    }
+  }
+  console.log();
+}
+
+/**
+ * Queue command handler
+ */
+export async function queueCommand(
+  action: string = 'list',
+  id: string | undefined,
+  options: { all?: boolean }
+): Promise<void> {
+  switch (action) {
+    case 'list':
+      listQueuedUploads();
+      return;
+
+    case 'retry': {
+      if (listQueue().length === 0) {
+        console.log(chalk.green('\nNo pending uploads.\n'));
+        emitResult('queue', { action, sent: 0, failed: 0, skipped: 0, errors: [] });
+        return;
+      }
+      let apiKey: string;
+      try {
+        apiKey = requireAuth().apiKey;
+      } catch (error) {
+        fail('queue', error);
+      }
+      const spinner = ora({ text: 'Retrying queued uploads...', isSilent: isJsonMode() }).start();
+      const result = await flushQueue(apiKey, id ? { ids: [id] } : { force: true });
+      if (result.failed === 0 && result.sent > 0) {
+        spinner.succeed(`Delivered ${result.sent} queued upload(s)`);
+      } else if (result.failed === 0) {
+        spinner.warn(id ? `No queued upload with id ${id}` : 'Nothing was retried');
+      } else {
+        spinner.fail(`Delivered ${result.sent}, failed ${result.failed}`);
+        for (const error of result.errors) {
+          console.error(chalk.red(`  ${error}`));
+        }
+        fail('queue', new CliError(`${result.failed} queued upload(s) failed`, 'PARTIAL_FAILURE'), { result: { action, ...result }, printed: true });
+      }
+      emitResult('queue', { action, ...result });
+      return;
+    }
+
+    case 'drop': {
+      if (options.all) {
+        const dropped = clearQueue();
+        console.log(chalk.green(`\n✓ Dropped ${dropped} pending upload(s)\n`));
+        emitResult('queue', { action, dropped });
+        return;
+      }
+      if (!id) {
+        console.error(chalk.red('\nError: Specify an upload id or use --all.\n'));
+        console.log('Usage: ccrank queue drop <id> | ccrank queue drop --all\n');
+        fail('queue', new CliError('Specify an upload id or use --all.', 'INVALID_ARGUMENT'), { printed: true });
+      }
+      if (!removeQueueItem(id)) {
+        fail('queue', new CliError(`No queued upload with id ${id}`, 'NOT_FOUND'));
+      }
+      console.log(chalk.green(`\n✓ Dropped ${id}\n`));
+      emitResult('queue', { action, dropped: 1 });
+      return;
+    }
+
+    default:
+      console.error(chalk.red(`\nError: Unknown queue action: ${action}\n`));
+      console.log('Usage: ccrank queue [list|retry|drop] [id]\n');
+      fail('queue', new CliError(`Unknown queue action: ${action}`, 'INVALID_ARGUMENT'), { printed: true });
+  }
+}
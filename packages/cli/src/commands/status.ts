@@ -4,7 +4,23 @@
 
 import { execSync } from 'child_process';
 import chalk from 'chalk';
-import { readConfig, getApiEndpoint } from '../config';
+import ora from 'ora';
+import { readConfig, getApiEndpoint, getDeviceId, getWebUrl, hasApiKey, getConfigFile, getEnvOverride, getActiveProfile, listProfiles } from '../config';
+import { getTimeZone } from '../timezone';
+import { getPrivacySettings, hasRedaction, describeRedaction } from '../redaction';
+import { getLastSyncAt, getSyncLockHolder } from '../lock';
+import { fetchWhoami } from '../api';
+import { loadUsageData, resolveDataSource } from '../sources';
+import { normalizeUsageReport, validateCCUsageData } from '../transformer';
+import { CliError, emitResult, fail, isJsonMode, toCliError } from '../output';
+import { Config, RankPeriod, WhoamiResponse } from '../types';
+
+const RANK_PERIODS: Array<[RankPeriod, string]> = [
+  ['daily', 'Daily'],
+  ['weekly', 'Weekly'],
+  ['monthly', 'Monthly'],
+  ['allTime', 'All time'],
+];
 
 /**
  * Check if a command is available
@@ -21,16 +37,65 @@ function isCommandAvailable(command: string): boolean {
 /**
  * Check ccusage availability
  */
-function checkCCUsage(): { local: boolean; npx: boolean } {
+export function checkCCUsage(): { local: boolean; npx: boolean } {
   const local = isCommandAvailable('ccusage --version');
   const npx = isCommandAvailable('npx --version');
   return { local, npx };
 }
 
+/**
+ * Days of usage the data source reports locally, for comparison with the server
+ */
+async function countLocalDays(config: Config | null): Promise<{ days: number } | { error: string }> {
+  try {
+    const data = normalizeUsageReport(await loadUsageData(resolveDataSource(undefined, config), 'daily', { timeZone: getTimeZone(config) }));
+    if (!validateCCUsageData(data)) {
+      return { error: 'not valid ccusage output' };
+    }
+    return { days: data.daily.length };
+  } catch (error) {
+    return { error: toCliError(error).message.split('\n')[0] };
+  }
+}
+
+/**
+ * Print the server's view of the account: identities, key, data and ranks
+ */
+export function printRemoteStatus(whoami: WhoamiResponse, local?: { days: number } | { error: string }): void {
+  console.log(chalk.bold('Server\n'));
+  console.log(chalk.gray(`Account: ${whoami.username} (since ${new Date(whoami.memberSince).toLocaleDateString()})`));
+  console.log(chalk.gray(`GitHub: ${whoami.github ? whoami.github.username : 'not linked'}`));
+  if (whoami.slack) {
+    console.log(chalk.gray(`Slack: ${whoami.slack.userId} in ${whoami.slack.teamName || whoami.slack.teamId}`));
+  }
+  console.log(chalk.gray(`API key: ${whoami.apiKey.prefix}… created ${new Date(whoami.apiKey.createdAt).toLocaleString()}`));
+  console.log(chalk.gray(`Last received data: ${whoami.server.updatedAt ? new Date(whoami.server.updatedAt).toLocaleString() : 'never'}`));
+
+  const range = whoami.server.firstDate ? ` (${whoami.server.firstDate} → ${whoami.server.lastDate})` : '';
+  console.log(chalk.gray(`Days on server: ${whoami.server.days}${range} from ${whoami.server.devices} device(s)`));
+  if (local) {
+    if ('error' in local) {
+      console.log(chalk.yellow(`Days reported locally: unknown (${local.error})`));
+    } else {
+      const behind = local.days > whoami.server.days;
+      console.log((behind ? chalk.yellow : chalk.gray)(`Days reported locally: ${local.days}${behind ? ' (run: ccrank sync)' : ''}`));
+    }
+  }
+
+  console.log(chalk.gray('\nRank:'));
+  for (const [period, label] of RANK_PERIODS) {
+    const { rank, totalParticipants } = whoami.ranks[period];
+    console.log(chalk.gray(`  ${`${label}:`.padEnd(10)}${rank ? `#${rank} of ${totalParticipants}` : `unranked (${totalParticipants} ranked)`}`));
+  }
+  console.log();
+}
+
 /**
  * Status command handler
+ * With --remote, the server is asked who the key belongs to, what it holds
+ * and where the user ranks.
  */
-export async function statusCommand(): Promise<void> {
+export async function statusCommand(options: { remote?: boolean } = {}): Promise<void> {
   const config = readConfig();
 
   console.log(chalk.bold('\nccrank Status\n'));
@@ -49,21 +114,92 @@ export async function statusCommand(): Promise<void> {
   }
   console.log();
 
-  if (!config || !config.username) {
+  if (!config || (!config.username && !hasApiKey(config))) {
     console.log(chalk.yellow('Status: Not configured'));
-    console.log(chalk.gray('\nRun this command to set up:'));
-    console.log(chalk.cyan('  ccrank setup <username>\n'));
+    console.log(chalk.gray('\nSign in through the browser with:'));
+    console.log(chalk.cyan('  ccrank login\n'));
+    console.log(chalk.gray(`Or get an API key at ${getWebUrl(config)}/setup and run: ccrank setup <api-key>\n`));
+    const result = { ccusage, configured: false, profile: getActiveProfile(), configFile: getConfigFile() };
+    if (options.remote) {
+      fail('status', new CliError('Not authenticated. Run: ccrank login', 'NOT_AUTHENTICATED'), { result, printed: true });
+    }
+    emitResult('status', result);
+    return;
+  }
+
+  if (!hasApiKey(config)) {
+    // Left over from the old username-only setup: the hook cannot upload anything
+    console.log(chalk.yellow('Status: API key missing'));
+    console.log(chalk.gray(`\nUsername: ${config.username}`));
+    console.log(chalk.gray('\nSyncs require an API key. Sign in through the browser with:'));
+    console.log(chalk.cyan('  ccrank login\n'));
+    const result = { ccusage, configured: false, profile: getActiveProfile(), configFile: getConfigFile(), username: config.username, apiKey: null };
+    if (options.remote) {
+      fail('status', new CliError('API key missing. Run: ccrank login', 'NOT_AUTHENTICATED'), { result, printed: true });
+    }
+    emitResult('status', result);
     return;
   }
 
+  const fromEnv = (key: 'apiKey' | 'apiEndpoint') => {
+    const name = getEnvOverride(key);
+    return name ? ` (from ${name})` : '';
+  };
+
   console.log(chalk.green('Status: Configured'));
-  console.log(chalk.gray(`\nUsername: ${config.username}`));
-  console.log(chalk.gray(`API Endpoint: ${getApiEndpoint(config)}`));
-  console.log(chalk.gray(`Config: ~/.ccrank/config.json`));
-  console.log(chalk.gray(`Mode: Public (no API key required)`));
+  console.log(chalk.gray(`\nUsername: ${config.username || '(looked up from the API key on sync)'}`));
+  console.log(chalk.gray(`API Endpoint: ${getApiEndpoint(config)}${fromEnv('apiEndpoint')}`));
+  console.log(chalk.gray(`Data source: ${config.source || 'ccusage'}`));
+  console.log(chalk.gray(`Device ID: ${getDeviceId(config)}`));
+  console.log(chalk.gray(`Time zone: ${getTimeZone(config)}${config.timeZone ? '' : ' (system)'}`));
+  const privacy = getPrivacySettings(config);
+  console.log(chalk.gray(`Privacy: ${hasRedaction(privacy) ? describeRedaction(privacy).join('; ') : 'exact stats uploaded'}`));
+  console.log(chalk.gray(`Project breakdowns: ${config.shareProjects || 'off'}`));
+  const lastSyncAt = getLastSyncAt();
+  const lockHolder = getSyncLockHolder();
+  console.log(chalk.gray(`Last sync: ${lastSyncAt ? lastSyncAt.toLocaleString() : 'never'}${lockHolder ? ` (sync running, pid ${lockHolder.pid})` : ''}`));
+  console.log(chalk.gray(`Config: ${getConfigFile()}`));
+  console.log(chalk.gray(`Profile: ${getActiveProfile()}${listProfiles().length > 1 ? ` (of ${listProfiles().join(', ')})` : ''}`));
+  console.log(chalk.gray(`API key: ${config.apiKey.slice(0, 15)}…${fromEnv('apiKey')}`));
+  console.log();
+
+  let remote: (WhoamiResponse & { localDays: number | null }) | undefined;
+  if (options.remote) {
+    const spinner = ora({ isSilent: isJsonMode() }).start('Asking the server...');
+    try {
+      const [whoami, local] = await Promise.all([fetchWhoami(config.apiKey, getWebUrl(config)), countLocalDays(config)]);
+      spinner.stop();
+      printRemoteStatus(whoami, local);
+      remote = { ...whoami, localDays: 'days' in local ? local.days : null };
+    } catch (error) {
+      spinner.fail('Could not reach the server');
+      fail('status', error);
+    }
+  }
 
   console.log('Available commands:');
   console.log(chalk.cyan('  ccrank sync') + '          - Sync current stats');
   console.log(chalk.cyan('  ccrank sync --stdin') + '  - Sync from piped JSON');
+  console.log(chalk.cyan('  ccrank config list') + '   - Show settings');
   console.log(chalk.cyan('  ccrank logout') + '        - Clear credentials\n');
+
+  emitResult('status', {
+    ccusage,
+    configured: true,
+    profile: getActiveProfile(),
+    profiles: listProfiles(),
+    configFile: getConfigFile(),
+    username: config.username || null,
+    apiEndpoint: getApiEndpoint(config),
+    apiKey: `${config.apiKey.slice(0, 15)}…`,
+    env: { apiKey: getEnvOverride('apiKey') || null, apiEndpoint: getEnvOverride('apiEndpoint') || null },
+    source: config.source || 'ccusage',
+    deviceId: getDeviceId(config),
+    timeZone: getTimeZone(config),
+    privacy: describeRedaction(privacy),
+    shareProjects: config.shareProjects || 'off',
+    lastSyncAt: lastSyncAt ? lastSyncAt.toISOString() : null,
+    syncRunning: lockHolder ? { pid: lockHolder.pid } : null,
+    ...(remote ? { remote } : {}),
+  });
 }
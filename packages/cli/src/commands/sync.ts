@@ -2,17 +2,38 @@
  * Sync command - upload ccusage stats to leaderboard
  */
 
-import { execSync } from 'child_process';
 import chalk from 'chalk';
 import ora from 'ora';
-import { getApiEndpoint, readConfig } from '../config';
-import { validateCCUsageData, transformToLeaderboardEntries, getSummaryStats } from '../transformer';
-import { CCUsageOutput } from '../types';
+import {
+  getActiveProfile,
+  getApiEndpoint,
+  getDeviceId,
+  getProjectSalt,
+  getWebUrl,
+  hasApiKey,
+  isValidProfileName,
+  listProfiles,
+  readConfig,
+  requireAuth,
+  setActiveProfile,
+  writeConfig,
+} from '../config';
+import { validateCCUsageData, describeUnsupportedReport, normalizeUsageReport, transformToLeaderboardEntries, getSummaryStats } from '../transformer';
+import { getLedgerTarget, readLedger, writeLedger, getChangedEntries, recordUploaded } from '../ledger';
+import { loadUsageData, resolveDataSource } from '../sources';
+import { getTimeZone } from '../timezone';
+import { getPrivacySettings, hasRedaction, describeRedaction, redactEntries } from '../redaction';
+import { getProjectSettings, attachProjectBreakdowns } from '../projects';
+import { syncToLeaderboard, SyncError } from '../api';
+import { enqueue, dropSupersededItems, flushQueue } from '../queue';
+import { acquireSyncLock, getSyncLockHolder, getSyncThrottle, recordSyncFinished, waitForRequestedSync, waitForSyncLock } from '../lock';
+import { CliError, emitResult, fail, isJsonMode, toCliError } from '../output';
+import { CCUsageOutput, LeaderboardEntry, SyncResponse } from '../types';
 
 /**
  * Read JSON from stdin
  */
-async function readStdin(): Promise<string> {
+export async function readStdin(): Promise<string> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
 
@@ -20,136 +41,342 @@ async function readStdin(): Promise<string> {
       chunks.push(chunk);
     });
 
+    // Set timeout for stdin reading (cleared so it doesn't keep the process alive)
+    const timer = setTimeout(() => {
+      reject(new Error('Timeout waiting for stdin input'));
+    }, 10000);
+
     process.stdin.on('end', () => {
+      clearTimeout(timer);
       resolve(Buffer.concat(chunks).toString('utf-8'));
     });
 
     process.stdin.on('error', (error) => {
+      clearTimeout(timer);
       reject(error);
     });
-
-    // Set timeout for stdin reading
-    setTimeout(() => {
-      reject(new Error('Timeout waiting for stdin input'));
-    }, 10000);
   });
 }
 
 /**
- * Try to run ccusage command with given method
+ * Map --period to the report that gets uploaded.
+ * The server builds weekly and monthly rankings from daily totals, so those
+ * periods are synced from the daily report.
  */
-function tryRunCCUsage(period: string, command: string): CCUsageOutput {
-  try {
-    const output = execSync(`${command} ${period} --json`, {
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
-      maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-    });
-    return JSON.parse(output);
-  } catch (error: any) {
-    // Re-throw with stderr attached for better error handling
-    if (error.stderr) {
-      error.stderr = error.stderr.toString();
-    }
-    throw error;
+function resolveSyncPeriod(period: string | undefined, log: (...args: any[]) => void): string {
+  switch (period || 'daily') {
+    case 'daily':
+      return 'daily';
+    case 'weekly':
+    case 'monthly':
+      log(chalk.gray(`  Note: ${period} rankings are computed from daily totals, so the daily report is synced.`));
+      return 'daily';
+    case 'session':
+    case 'blocks':
+      throw new CliError(`--period ${period} can't be uploaded: the leaderboard only stores daily totals. Use --period daily.`, 'INVALID_ARGUMENT');
+    default:
+      throw new CliError(`Unknown period: ${period}. Use daily, weekly or monthly.`, 'INVALID_ARGUMENT');
   }
 }
 
+interface SyncOptions {
+  stdin?: boolean;
+  report?: CCUsageOutput; // Usage data loaded by the caller (ccrank import)
+  deviceId?: string; // Upload under another device ID (ccrank import)
+  period?: string;
+  dryRun?: boolean;
+  quiet?: boolean;
+  user?: string;
+  full?: boolean;
+  source?: string;
+  profiles?: string;
+  deferred?: string; // ID of the hook request this run waits on
+}
+
 /**
- * Run ccusage command and get JSON output
- * Tries local install first, then falls back to npx
+ * Outcome of syncing one profile, as reported by --json
  */
-function runCCUsage(period: string = 'daily'): CCUsageOutput {
-  const errors: string[] = [];
+export interface SyncProfileResult {
+  profile: string;
+  status: 'synced' | 'unchanged' | 'empty' | 'dry-run' | 'failed';
+  username?: string;
+  days?: number; // Days in the report after redaction
+  uploaded?: number; // Days sent (changed days only, unless a full replace)
+  partial?: boolean;
+  queueDelivered?: number;
+  message?: string; // Server message
+  entries?: LeaderboardEntry[]; // Dry run payload
+  error?: { code: string; message: string };
+}
 
-  // Try 1: Check if ccusage is available globally/locally
-  try {
-    return tryRunCCUsage(period, 'ccusage');
-  } catch (error: any) {
-    // Check for command not found (ENOENT or stderr containing 'not found')
-    const stderr = error.stderr || '';
-    if (error.code === 'ENOENT' || stderr.includes('not found') || stderr.includes('No such')) {
-      errors.push('Local ccusage not found');
-    } else {
-      throw new Error(`Failed to run ccusage: ${error.message}`);
+// How long a manual sync waits for a running one to finish
+const LOCK_WAIT_MS = 5 * 60 * 1000;
+
+/**
+ * Key under which hook requests coalesce: runs that would sync the same
+ * profiles as the same user supersede each other
+ */
+export function getSyncRequestKey(options: SyncOptions): string {
+  return JSON.stringify([options.profiles || getActiveProfile(), options.user || '']);
+}
+
+/**
+ * Take the sync lock, waiting for a running sync to finish first
+ */
+async function lockSync(spinner: any, quiet: boolean): Promise<() => void> {
+  const release = acquireSyncLock();
+  if (release) {
+    return release;
+  }
+
+  const holder = getSyncLockHolder();
+  if (!quiet) (spinner as any).start?.(`Waiting for another sync to finish${holder ? ` (pid ${holder.pid})` : ''}...`);
+  const waited = await waitForSyncLock(LOCK_WAIT_MS);
+  if (!waited) {
+    throw new CliError(`Another sync is still running${holder ? ` (pid ${holder.pid})` : ''}. Try again later.`, 'SYNC_LOCKED');
+  }
+  if (!quiet) (spinner as any).stop?.();
+  return waited;
+}
+
+/**
+ * Sync the active profile.
+ * Throws on failure; the caller reports the error.
+ */
+async function syncProfile(
+  options: SyncOptions,
+  log: (...args: any[]) => void,
+  spinner: any,
+  cache: Map<string, Promise<CCUsageOutput>>
+): Promise<SyncProfileResult> {
+  const quiet = options.quiet || isJsonMode();
+  const profile = getActiveProfile();
+
+  // Uploads are authenticated with the API key; a dry run only needs a username
+  const config = options.dryRun ? readConfig() : requireAuth();
+
+  const apiEndpoint = getApiEndpoint(config);
+
+  // Determine username: --user flag > config > the API key's owner > error.
+  // The lookup lets a CCRANK_API_KEY alone provision a machine.
+  let username = options.user || config?.username;
+  if (!username && config && hasApiKey(config)) {
+    username = (await syncToLeaderboard([], config.apiKey, apiEndpoint)).username;
+  }
+  if (!username) {
+    throw new CliError('Username required. Run: ccrank login or use --user <username>', 'NOT_AUTHENTICATED');
+  }
+
+  // Persist the device ID (and a looked-up username) so they survive hostname changes
+  const localDeviceId = getDeviceId(config);
+  if (config && (!config.deviceId || !config.username)) {
+    writeConfig({ ...config, deviceId: localDeviceId, username: config.username || username });
+  }
+  const deviceId = options.deviceId || localDeviceId;
+
+  // Get ccusage data (loaded once per source when fanning out to several profiles)
+  let ccusageData: CCUsageOutput;
+  const projectSettings = getProjectSettings(config);
+  const projects = projectSettings.sharing !== 'off';
+  const timeZone = getTimeZone(config);
+
+  if (options.report) {
+    ccusageData = options.report;
+  } else if (options.stdin) {
+    // Read from stdin
+    if (!quiet) (spinner as any).start?.('Loading ccusage data...');
+    if (!cache.has('stdin')) {
+      cache.set('stdin', readStdin().then(data => {
+        try {
+          return JSON.parse(data);
+        } catch {
+          throw new CliError('stdin is not valid JSON. Pipe in the output of: ccusage daily --json', 'INVALID_DATA');
+        }
+      }));
+    }
+    ccusageData = await cache.get('stdin')!;
+  } else {
+    // Run ccusage or read transcripts natively
+    const source = resolveDataSource(options.source, config);
+    const period = resolveSyncPeriod(options.period, log);
+    if (!quiet) (spinner as any).start?.(source === 'native' ? 'Reading Claude Code transcripts...' : 'Loading ccusage data...');
+    // Native days are dated in the profile's time zone, so profiles in different zones can't share them
+    const key = `${source}:${period}${projects ? ':projects' : ''}${source === 'native' ? `:${timeZone}` : ''}`;
+    if (!cache.has(key)) {
+      cache.set(key, loadUsageData(source, period, { projects, timeZone }));
     }
+    ccusageData = await cache.get(key)!;
   }
 
-  // Try 2: Use npx to run without installation
-  try {
-    return tryRunCCUsage(period, 'npx ccusage@latest');
-  } catch (error: any) {
-    errors.push(`npx fallback failed: ${error.message}`);
+  // Per-project reports (ccusage --instances) become daily totals with a project breakdown
+  ccusageData = normalizeUsageReport(ccusageData);
+
+  // Only daily reports can be uploaded; explain anything else
+  const unsupported = describeUnsupportedReport(ccusageData);
+  if (unsupported) {
+    if (!quiet) (spinner as any).fail?.('Unsupported ccusage report');
+    throw new CliError(unsupported, 'INVALID_DATA');
   }
 
-  // Try 3: Use pnpm dlx as another fallback
-  try {
-    return tryRunCCUsage(period, 'pnpm dlx ccusage@latest');
-  } catch (error: any) {
-    errors.push(`pnpm fallback failed: ${error.message}`);
-  }
-
-  // All methods failed
-  throw new Error(
-    `ccusage could not be executed.\n\n` +
-    `Attempts made:\n` +
-    errors.map(e => `  - ${e}`).join('\n') +
-    `\n\nTo fix this, you can:\n` +
-    `  1. Install ccusage globally: npm install -g ccusage\n` +
-    `  2. Or ensure npx is available (comes with Node.js)\n` +
-    `  3. Or pipe data manually: ccusage --json | ccrank sync --stdin`
+  // Validate data
+  if (!validateCCUsageData(ccusageData)) {
+    if (!quiet) (spinner as any).fail?.('Invalid ccusage data format');
+    throw new CliError('The provided data is not valid ccusage output', 'INVALID_DATA');
+  }
+
+  if (ccusageData.daily.length === 0) {
+    if (!quiet) (spinner as any).warn?.('No daily usage data to sync');
+    log(chalk.yellow('\nNo usage data found. Try using ccusage with a different time range.\n'));
+    return { profile, status: 'empty', username, days: 0 };
+  }
+
+  if (!quiet) (spinner as any).succeed?.('Data loaded successfully');
+
+  // Get summary stats
+  const stats = getSummaryStats(ccusageData);
+  log(chalk.gray(`\n  Days: ${stats.totalDays}`));
+  log(chalk.gray(`  Total tokens: ${stats.totalTokens.toLocaleString()}`));
+  log(chalk.gray(`  Total cost: $${stats.totalCost.toFixed(2)}`));
+  log(chalk.gray(`  Models: ${stats.uniqueModels}\n`));
+
+  // Transform to leaderboard entries
+  if (!quiet) (spinner as any).start?.('Transforming data...');
+  // Project paths are replaced by aliases or hashes here; they never reach the entries
+  const rawEntries = attachProjectBreakdowns(
+    transformToLeaderboardEntries(ccusageData, username, timeZone),
+    ccusageData,
+    projectSettings,
+    projectSettings.sharing === 'hashed' ? getProjectSalt(config) : ''
   );
+  if (projects && !rawEntries.some(entry => entry.projectBreakdowns)) {
+    log(chalk.gray('  Note: this report has no per-project data, so no project breakdown is uploaded'));
+  }
+
+  // Apply the profile's privacy settings before anything is hashed, queued or uploaded
+  const privacy = getPrivacySettings(config);
+  const entries = redactEntries(rawEntries, privacy);
+  if (hasRedaction(privacy)) {
+    log(chalk.gray(`  Privacy: ${describeRedaction(privacy).join('; ')}`));
+    if (entries.length < rawEntries.length) {
+      // Incremental syncs never delete; a full replace removes days uploaded before they were excluded
+      log(chalk.gray(`  ${rawEntries.length - entries.length} day(s) left out by privacy settings${options.full ? '' : ' (use --full to remove earlier uploads of them)'}`));
+    }
+  }
+
+  // Only upload days that changed since the last successful sync.
+  // With no ledger (first sync or --full) the server copy is replaced wholesale;
+  // imports only ever add or replace their own days.
+  const ledgerTarget = getLedgerTarget(apiEndpoint, username, deviceId);
+  const ledger = options.full ? { target: ledgerTarget, days: {} } : readLedger(ledgerTarget);
+  const partial = Boolean(options.report) || Object.keys(ledger.days).length > 0;
+  const pending = partial ? getChangedEntries(entries, ledger) : entries;
+
+  if (!quiet) (spinner as any).succeed?.(`Prepared ${pending.length} of ${entries.length} entries for sync`);
+
+  if (options.dryRun) {
+    const result: SyncProfileResult = { profile, status: 'dry-run', username, days: entries.length, partial, entries: pending };
+    if (pending.length === 0) {
+      log(chalk.blue('\n[DRY RUN] No days changed since the last sync.\n'));
+      return result;
+    }
+    if (hasRedaction(privacy)) {
+      const pendingDates = new Set(pending.map(entry => entry.date));
+      log(chalk.blue('\n[DRY RUN] Raw entries before redaction (never uploaded):\n'));
+      log(JSON.stringify(rawEntries.filter(entry => pendingDates.has(entry.date)), null, 2));
+    }
+    log(chalk.blue(`\n[DRY RUN] Would sync the following ${hasRedaction(privacy) ? 'redacted ' : ''}entries (${partial ? 'changed days only' : 'full replace'}):\n`));
+    log(JSON.stringify(pending, null, 2));
+    log(chalk.blue('\nDry run complete. No data was uploaded.\n'));
+    return result;
+  }
+
+  // Retry earlier failed uploads first so the newest data always lands last
+  dropSupersededItems(ledgerTarget, pending.map(entry => entry.date), partial);
+  const retried = await flushQueue(config!.apiKey);
+  if (retried.sent > 0) {
+    log(chalk.gray(`  Delivered ${retried.sent} queued upload(s)`));
+  }
+
+  if (pending.length === 0) {
+    log(chalk.gray('\nNo days changed since the last sync. Use --full to re-upload everything.\n'));
+    return { profile, status: 'unchanged', username, days: entries.length, uploaded: 0, partial, queueDelivered: retried.sent };
+  }
+
+  // Upload to API (authenticated with the API key)
+  if (!quiet) (spinner as any).start?.('Syncing to leaderboard...');
+  let response: SyncResponse;
+  try {
+    response = await syncToLeaderboard(pending, config!.apiKey, apiEndpoint, { username, deviceId, partial, timeZone });
+  } catch (error) {
+    if (error instanceof SyncError && error.retryable) {
+      // Keep the payload so a later run can deliver it
+      enqueue({ apiEndpoint, username, deviceId, ledgerTarget, partial, timeZone, entries: pending, error: error.message });
+      throw new CliError(
+        `${error.message}\nThe upload was queued and will be retried on the next sync (see: ccrank queue).`,
+        toCliError(error).code
+      );
+    }
+    throw error;
+  }
+
+  if (response.success) {
+    writeLedger(recordUploaded(ledger, pending));
+    if (!quiet) (spinner as any).succeed?.('Sync completed successfully!');
+    log(chalk.green(`\n✓ ${response.message}`));
+    log(chalk.gray(`  Entries processed: ${response.entriesProcessed}`));
+    log(chalk.cyan(`\n  View leaderboard: ${getWebUrl(config)}\n`));
+    return {
+      profile,
+      status: 'synced',
+      username,
+      days: entries.length,
+      uploaded: pending.length,
+      partial,
+      queueDelivered: retried.sent,
+      message: response.message,
+    };
+  }
+
+  if (!quiet) (spinner as any).fail?.('Sync failed');
+  throw new CliError(response.message, 'API_ERROR');
 }
 
 /**
- * Sync data using public API (no auth required)
+ * Profiles named by --profiles: a comma-separated list, or "all"
  */
-async function syncPublic(
-  entries: any[],
-  username: string,
-  apiEndpoint: string,
-  quiet: boolean
-): Promise<{ success: boolean; message: string; entriesProcessed: number }> {
-  const url = new URL(apiEndpoint);
-  url.searchParams.set('user', username);
-  
-  // Add timezone offset
-  const tzOffset = new Date().getTimezoneOffset();
-  const sign = tzOffset <= 0 ? '+' : '-';
-  const hours = String(Math.floor(Math.abs(tzOffset) / 60)).padStart(2, '0');
-  const minutes = String(Math.abs(tzOffset) % 60).padStart(2, '0');
-  url.searchParams.set('tz', `${sign}${hours}${minutes}`);
-
-  const response = await fetch(url.toString(), {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ daily: entries }),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ error: 'Unknown error' })) as { error?: string };
-    throw new Error(errorData.error || `HTTP ${response.status}`);
+export function resolveProfiles(value: string): string[] {
+  const names = value === 'all'
+    ? listProfiles()
+    : value.split(',').map(name => name.trim()).filter(Boolean);
+  if (names.length === 0) {
+    throw new CliError(value === 'all' ? 'No profiles are configured. Run: ccrank login' : 'No profiles given to --profiles', 'INVALID_ARGUMENT');
+  }
+  for (const name of names) {
+    if (!isValidProfileName(name)) {
+      throw new CliError(`Invalid profile name: ${name}`, 'INVALID_ARGUMENT');
+    }
   }
+  return names;
+}
 
-  const result = await response.json() as { message: string; count: number };
-  return {
-    success: true,
-    message: result.message,
-    entriesProcessed: result.count,
-  };
+/**
+ * Result of a sync run: one result per profile, and the first error if any
+ * profile (or the run as a whole) failed
+ */
+export interface SyncRunResult {
+  superseded?: boolean; // A newer hook request took over
+  results: SyncProfileResult[];
+  error?: CliError;
 }
 
 /**
- * Sync command handler
+ * Run a sync and print its progress, without reporting the outcome.
+ * With --profiles, one sync fans out to each listed profile in turn.
+ * Uploads hold the sync lock; a deferred (hook) run first waits for its
+ * request to settle and gives way to newer requests.
  */
-export async function syncCommand(options: {
-  stdin?: boolean;
-  period?: string;
-  dryRun?: boolean;
-  quiet?: boolean;
-  user?: string;
-}): Promise<void> {
-  const quiet = options.quiet || false;
+export async function runSync(options: SyncOptions): Promise<SyncRunResult> {
+  const quiet = options.quiet || isJsonMode();
 
   // Helper functions for quiet mode
   const log = (...args: any[]) => {
@@ -167,82 +394,72 @@ export async function syncCommand(options: {
     warn: () => {},
   } : ora();
 
-  try {
-    // Get config (optional - public sync doesn't require auth)
-    const config = readConfig();
-    
-    // Determine username: --user flag > config > error
-    const username = options.user || config?.username;
-    if (!username) {
-      throw new Error('Username required. Run: ccrank setup <username> or use --user <username>');
-    }
-
-    const apiEndpoint = getApiEndpoint(config);
-
-    // Get ccusage data
-    if (!quiet) (spinner as any).start?.('Loading ccusage data...');
-    let ccusageData: CCUsageOutput;
-
-    if (options.stdin) {
-      // Read from stdin
-      const stdinData = await readStdin();
-      ccusageData = JSON.parse(stdinData);
-    } else {
-      // Run ccusage internally
-      const period = options.period || 'daily';
-      ccusageData = runCCUsage(period);
-    }
+  const cache = new Map<string, Promise<CCUsageOutput>>();
+  const run: SyncRunResult = { results: [] };
+  let release: (() => void) | undefined;
 
-    // Validate data
-    if (!validateCCUsageData(ccusageData)) {
-      if (!quiet) (spinner as any).fail?.('Invalid ccusage data format');
-      throw new Error('The provided data is not valid ccusage output');
+  try {
+    if (options.deferred) {
+      release = await waitForRequestedSync(getSyncRequestKey(options), options.deferred, getSyncThrottle(readConfig()));
+      if (!release) {
+        // A newer hook run took over and will sync instead
+        return { ...run, superseded: true };
+      }
+    } else if (!options.dryRun) {
+      release = await lockSync(spinner, quiet);
     }
 
-    if (ccusageData.daily.length === 0) {
-      if (!quiet) (spinner as any).warn?.('No daily usage data to sync');
-      log(chalk.yellow('\nNo usage data found. Try using ccusage with a different time range.\n'));
-      return;
+    if (!options.profiles) {
+      run.results.push(await syncProfile(options, log, spinner, cache));
+      return run;
     }
 
-    if (!quiet) (spinner as any).succeed?.('Data loaded successfully');
-
-    // Get summary stats
-    const stats = getSummaryStats(ccusageData);
-    log(chalk.gray(`\n  Days: ${stats.totalDays}`));
-    log(chalk.gray(`  Total tokens: ${stats.totalTokens.toLocaleString()}`));
-    log(chalk.gray(`  Total cost: $${stats.totalCost.toFixed(2)}`));
-    log(chalk.gray(`  Models: ${stats.uniqueModels}\n`));
-
-    // Transform to leaderboard entries
-    if (!quiet) (spinner as any).start?.('Transforming data...');
-    const entries = transformToLeaderboardEntries(ccusageData, username);
-    if (!quiet) (spinner as any).succeed?.(`Prepared ${entries.length} entries for sync`);
-
-    if (options.dryRun) {
-      log(chalk.blue('\n[DRY RUN] Would sync the following entries:\n'));
-      log(JSON.stringify(entries, null, 2));
-      log(chalk.blue('\nDry run complete. No data was uploaded.\n'));
-      return;
+    if (options.user) {
+      throw new CliError('--user cannot be combined with --profiles; each profile uses its own username', 'INVALID_ARGUMENT');
     }
 
-    // Upload to API (public - no auth required)
-    if (!quiet) (spinner as any).start?.('Syncing to leaderboard...');
-    const response = await syncPublic(entries, username, apiEndpoint, quiet);
-
-    if (response.success) {
-      if (!quiet) (spinner as any).succeed?.('Sync completed successfully!');
-      log(chalk.green(`\n✓ ${response.message}`));
-      log(chalk.gray(`  Entries processed: ${response.entriesProcessed}`));
-      log(chalk.cyan(`\n  View leaderboard: https://ccusageshare-leaderboard.vercel.app\n`));
-    } else {
-      if (!quiet) (spinner as any).fail?.('Sync failed');
-      throw new Error(response.message);
+    const originalProfile = getActiveProfile();
+    try {
+      for (const profile of resolveProfiles(options.profiles)) {
+        setActiveProfile(profile);
+        log(chalk.bold(`\n[${profile}]`));
+        try {
+          run.results.push(await syncProfile(options, log, spinner, cache));
+        } catch (error) {
+          // Keep going so one broken profile doesn't block the others
+          const cliError = toCliError(error);
+          run.error = run.error || cliError;
+          run.results.push({ profile, status: 'failed', error: { code: cliError.code, message: cliError.message } });
+          if (!quiet) (spinner as any).fail?.(`Sync failed for profile ${profile}`);
+          logError(chalk.red(`\n✗ Error: ${cliError.message}\n`));
+        }
+      }
+    } finally {
+      setActiveProfile(originalProfile);
     }
   } catch (error) {
+    run.error = toCliError(error);
     if (!quiet) (spinner as any).fail?.('Sync failed');
-    logError(chalk.red(`\n✗ Error: ${error instanceof Error ? error.message : String(error)}\n`));
+    logError(chalk.red(`\n✗ Error: ${run.error.message}\n`));
+  } finally {
+    if (release) {
+      // Failed attempts count too, so a broken server isn't retried in a tight loop
+      recordSyncFinished();
+      release();
+    }
+  }
+
+  return run;
+}
+
+/**
+ * Sync command handler
+ */
+export async function syncCommand(options: SyncOptions): Promise<void> {
+  const { error, ...result } = await runSync(options);
+  if (error) {
     // Don't exit with error code in quiet mode (for hook usage)
-    if (!quiet) process.exit(1);
+    fail('sync', error, { quiet: options.quiet, result, printed: true });
   }
+  emitResult('sync', result);
 }
@@ -0,0 +1,138 @@
+/**
+ * Top command - full-screen leaderboard that refreshes itself
+ */
+
+import chalk from 'chalk';
+import { readConfig, getWebUrl } from '../config';
+import { fetchLeaderboard } from '../api';
+import { LEADERBOARD_PERIODS, PERIOD_LABELS, describeLeaderboard, renderLeaderboard } from '../leaderboard';
+import { CliError, fail, isJsonMode, toCliError } from '../output';
+import { LeaderboardOptions, resolveLeaderboardOptions } from './leaderboard';
+import { PublicLeaderboardResponse } from '../types';
+
+interface TopOptions extends LeaderboardOptions {
+  interval?: string;
+}
+
+const MIN_INTERVAL_SECONDS = 5;
+
+// Lines around the table: title, blank, header, blank, status, footer
+const CHROME_LINES = 7;
+
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l';
+const LEAVE_SCREEN = '\x1b[?25h\x1b[?1049l';
+const CLEAR_SCREEN = '\x1b[H\x1b[2J';
+
+/**
+ * Top command handler
+ * Keys: 1-4 switch period, r refreshes, q (or Ctrl-C) quits.
+ */
+export async function topCommand(options: TopOptions): Promise<void> {
+  try {
+    if (isJsonMode() || !process.stdout.isTTY || !process.stdin.isTTY) {
+      throw new CliError('ccrank top needs an interactive terminal. Use: ccrank leaderboard', 'INVALID_ARGUMENT');
+    }
+    const intervalSeconds = options.interval !== undefined ? Number(options.interval) : 30;
+    if (!Number.isInteger(intervalSeconds) || intervalSeconds < MIN_INTERVAL_SECONDS) {
+      throw new CliError(`--interval must be a whole number of seconds, at least ${MIN_INTERVAL_SECONDS}`, 'INVALID_ARGUMENT');
+    }
+
+    // Without --limit, show as many rows as fit on screen
+    const fitLimit = Math.min(100, Math.max(5, (process.stdout.rows || 30) - CHROME_LINES));
+    const query = resolveLeaderboardOptions(options, fitLimit);
+    const config = readConfig();
+    const webUrl = getWebUrl(config);
+
+    let data: PublicLeaderboardResponse | undefined;
+    let error: string | undefined;
+    let updatedAt: Date | undefined;
+    let loading = false;
+    let refreshPending = false;
+
+    const render = () => {
+      const lines: string[] = [];
+      lines.push(data ? describeLeaderboard(data) : chalk.bold(`Leaderboard — ${PERIOD_LABELS[query.period]}`));
+      lines.push(error ? chalk.red(error) : '');
+      if (data) {
+        lines.push(...renderLeaderboard(data, { highlight: config?.username, width: process.stdout.columns }));
+      } else if (!error) {
+        lines.push(chalk.gray('Loading...'));
+      }
+      lines.push('');
+      const status = loading ? 'Refreshing...' : updatedAt ? `Updated ${updatedAt.toLocaleTimeString()}` : '';
+      lines.push(chalk.gray(`${status} · every ${intervalSeconds}s`));
+      lines.push(chalk.gray(LEADERBOARD_PERIODS.map((period, index) =>
+        period === query.period ? chalk.white.bold(`[${index + 1}] ${PERIOD_LABELS[period]}`) : `[${index + 1}] ${PERIOD_LABELS[period]}`
+      ).join('  ') + '  [r] refresh  [q] quit'));
+      process.stdout.write(CLEAR_SCREEN + lines.join('\n'));
+    };
+
+    const refresh = async () => {
+      if (loading) {
+        // Run again once the current fetch ends, e.g. after a period switch
+        refreshPending = true;
+        return;
+      }
+      loading = true;
+      render();
+      const period = query.period;
+      try {
+        const result = await fetchLeaderboard(webUrl, { ...query });
+        // Standings for a period that is no longer selected are dropped
+        if (period === query.period) {
+          data = result;
+          error = undefined;
+          updatedAt = new Date();
+        }
+      } catch (fetchError) {
+        // Keep showing the last standings until the next refresh works
+        if (period === query.period) {
+          error = toCliError(fetchError).message.split('\n')[0];
+        }
+      }
+      loading = false;
+      if (refreshPending) {
+        refreshPending = false;
+        void refresh();
+        return;
+      }
+      render();
+    };
+
+    await new Promise<void>(resolve => {
+      const timer = setInterval(refresh, intervalSeconds * 1000);
+
+      const quit = () => {
+        clearInterval(timer);
+        process.stdin.setRawMode(false);
+        process.stdin.pause();
+        process.stdin.off('data', onKey);
+        process.stdout.off('resize', render);
+        process.stdout.write(LEAVE_SCREEN);
+        resolve();
+      };
+
+      const onKey = (key: Buffer) => {
+        const char = key.toString();
+        if (char === 'q' || char === '\u0003') {
+          quit();
+        } else if (char === 'r') {
+          void refresh();
+        } else if (/^[1-4]$/.test(char) && LEADERBOARD_PERIODS[Number(char) - 1] !== query.period) {
+          query.period = LEADERBOARD_PERIODS[Number(char) - 1];
+          data = undefined;
+          void refresh();
+        }
+      };
+
+      process.stdout.write(ENTER_SCREEN);
+      process.stdin.setRawMode(true);
+      process.stdin.resume();
+      process.stdin.on('data', onKey);
+      process.stdout.on('resize', render);
+      void refresh();
+    });
+  } catch (error) {
+    fail('top', error);
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Uninstall command - remove the Claude Code hook and local ccrank state
+ */
+
+import * as readline from 'readline';
+import chalk from 'chalk';
+import { clearConfig, readConfig, hasApiKey, getWebUrl, getConfigFile, getActiveProfile, setActiveProfile, listProfiles } from '../config';
+import { revokeApiKey } from '../api';
+import { clearLedger } from '../ledger';
+import { clearQueue, listQueue } from '../queue';
+import { clearSyncState } from '../lock';
+import { emitResult, fail, isJsonMode, toCliError } from '../output';
+import {
+  getSettingsFile,
+  resolveSettingsScope,
+  readClaudeSettings,
+  writeClaudeSettings,
+  removeClaudeHooks,
+  getHookProfiles,
+  diffSettings,
+} from '../claudeSettings';
+
+interface UninstallOptions {
+  purge?: boolean;
+  revoke?: boolean;
+  yes?: boolean;
+  dryRun?: boolean;
+  scope?: string;
+}
+
+/**
+ * Ask a yes/no question on the terminal (defaults to no)
+ */
+function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise(resolve => {
+    rl.question(`${question} (y/N) `, answer => {
+      rl.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
+
+/**
+ * Offer to revoke the active profile's key, then clear its credentials.
+ * A failed revoke only warns: the hook is already gone, so stopping here
+ * would leave the credentials behind with nothing left to use them.
+ */
+async function signOutProfile(options: UninstallOptions, multiple: boolean): Promise<Record<string, unknown>> {
+  const profile = getActiveProfile();
+  const result: Record<string, unknown> = { profile };
+  const config = readConfig();
+
+  if (config && hasApiKey(config)) {
+    const keyLabel = multiple ? `profile ${profile}'s` : 'this machine\'s';
+    const revoke = options.revoke
+      ?? (!options.yes && process.stdin.isTTY && !isJsonMode() ? await confirm(`\nRevoke ${keyLabel} API key on the server?`) : false);
+
+    if (revoke && !options.dryRun) {
+      try {
+        const revoked = await revokeApiKey(getWebUrl(config), config.apiKey);
+        result.apiKeyRevoked = revoked;
+        console.log(revoked
+          ? chalk.green('✓ API key revoked on the server')
+          : chalk.gray('API key was already invalid or revoked'));
+      } catch (error) {
+        const message = toCliError(error).message;
+        result.apiKeyRevoked = false;
+        result.revokeError = message;
+        console.log(chalk.yellow(`⚠ ${message}`));
+        console.log(chalk.yellow(`  The API key is still active on the server. Revoke it at ${getWebUrl(config)}/setup`));
+      }
+    } else if (revoke) {
+      console.log(chalk.gray('Would revoke the API key on the server'));
+    } else {
+      console.log(chalk.gray(`API key left active. Rotate it anytime at ${getWebUrl(config)}/setup`));
+    }
+  }
+
+  if (config && !options.dryRun) {
+    clearConfig();
+    result.credentialsCleared = true;
+    console.log(chalk.green(`✓ Credentials cleared from ${getConfigFile()}${multiple ? ` (profile ${profile})` : ''}`));
+  } else if (config) {
+    console.log(chalk.gray(`Would clear the credentials${multiple ? ` of profile ${profile}` : ''}`));
+  }
+  return result;
+}
+
+/**
+ * Uninstall command handler
+ */
+export async function uninstallCommand(options: UninstallOptions): Promise<void> {
+  console.log(chalk.bold(`\nccrank Uninstall${options.dryRun ? ' (dry run)' : ''}\n`));
+
+  try {
+    // Remove only ccrank's hook entries from the Claude Code settings
+    const scope = resolveSettingsScope(options.scope);
+    const settingsFile = getSettingsFile(scope);
+    const before = readClaudeSettings(settingsFile);
+    const { settings: after, removed } = removeClaudeHooks(before);
+    const result: Record<string, unknown> = { dryRun: !!options.dryRun, scope, settingsFile, removedHooks: removed.length };
+
+    if (removed.length === 0) {
+      console.log(chalk.gray(`No ccrank hook found in ${settingsFile}`));
+    } else {
+      console.log(`${settingsFile}:`);
+      for (const line of diffSettings(before, after)) {
+        const color = line.startsWith('-') ? chalk.red : line.startsWith('+') ? chalk.green : chalk.gray;
+        console.log(color(`  ${line}`));
+      }
+      if (!options.dryRun) {
+        const { backupFile } = writeClaudeSettings(after, settingsFile);
+        result.backupFile = backupFile || null;
+        console.log(chalk.green(`\n✓ Removed ${removed.length} ccrank hook(s)`));
+        if (backupFile) {
+          console.log(chalk.gray(`  Previous settings backed up to ${backupFile}`));
+        }
+      } else {
+        console.log(chalk.gray(`\nWould remove ${removed.length} ccrank hook(s)`));
+      }
+    }
+
+    // Removing a project hook leaves the machine's login alone
+    if (scope !== 'user') {
+      console.log(chalk.green(`\n✓ ${options.dryRun ? 'Dry run complete. Nothing was changed.' : `ccrank removed from ${scope} settings`}\n`));
+      emitResult('uninstall', result);
+      return;
+    }
+
+    // The hook may have synced several profiles (--profiles); sign each of them out
+    const originalProfile = getActiveProfile();
+    const storedProfiles = listProfiles();
+    const profiles = Array.from(new Set([originalProfile, ...removed.flatMap(hook => getHookProfiles(hook.command))]))
+      .filter(profile => profile === originalProfile || storedProfiles.includes(profile));
+    const profileResults: Array<Record<string, unknown>> = [];
+    try {
+      for (const profile of profiles) {
+        setActiveProfile(profile);
+        if (profiles.length > 1) {
+          console.log(chalk.bold(`\n[${profile}]`));
+        }
+        profileResults.push(await signOutProfile(options, profiles.length > 1));
+      }
+    } finally {
+      setActiveProfile(originalProfile);
+    }
+    result.profiles = profileResults;
+
+    // Local state
+    if (options.purge) {
+      if (!options.dryRun) {
+        const dropped = clearQueue();
+        clearLedger();
+        clearSyncState();
+        result.purgedUploads = dropped;
+        console.log(chalk.green(`✓ Cleared sync ledger and ${dropped} pending upload(s)`));
+      } else {
+        console.log(chalk.gray(`Would clear the sync ledger and ${listQueue().length} pending upload(s)`));
+      }
+    } else if (listQueue().length > 0) {
+      console.log(chalk.yellow(`${listQueue().length} pending upload(s) kept in the outbox (use --purge to remove)`));
+    }
+
+    const leftProfiles = listProfiles().filter(profile => !profiles.includes(profile));
+    if (leftProfiles.length > 0 && !options.dryRun) {
+      result.remainingProfiles = leftProfiles;
+      console.log(chalk.gray(`Other profiles are still signed in: ${leftProfiles.join(', ')} (remove them with: ccrank --profile <name> logout)`));
+    }
+
+    console.log(chalk.green(`\n✓ ${options.dryRun ? 'Dry run complete. Nothing was changed.' : 'ccrank uninstalled'}\n`));
+    emitResult('uninstall', result);
+  } catch (error) {
+    fail('uninstall', error);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Whoami command - show the account the API key belongs to, as the server sees it
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { requireAuth, getWebUrl, getActiveProfile } from '../config';
+import { fetchWhoami } from '../api';
+import { emitResult, fail, isJsonMode } from '../output';
+import { printRemoteStatus } from './status';
+
+/**
+ * Whoami command handler
+ */
+export async function whoamiCommand(): Promise<void> {
+  const spinner = ora({ isSilent: isJsonMode() });
+
+  try {
+    const config = requireAuth();
+    spinner.start('Asking the server...');
+    const whoami = await fetchWhoami(config.apiKey, getWebUrl(config));
+    spinner.stop();
+
+    console.log(chalk.gray(`\nProfile: ${getActiveProfile()}\n`));
+    printRemoteStatus(whoami);
+    emitResult('whoami', { profile: getActiveProfile(), ...whoami });
+  } catch (error) {
+    spinner.fail('Could not reach the server');
+    fail('whoami', error);
+  }
+}
@@ -1,54 +1,293 @@
 /**
  * Configuration management for ccrank
- * Handles reading/writing config to ~/.ccrank/config.json
+ * Handles reading/writing config to ~/.ccrank/config.json (or
+ * $XDG_CONFIG_HOME/ccrank, or $CCRANK_CONFIG_DIR) with env var overrides.
+ * The file can hold several named profiles; one of them is active per run.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { Config } from './types';
+import { createHash, randomBytes } from 'crypto';
+import { Config, ConfigFile, CostRedaction, DataSource, ProjectSharing } from './types';
+import { validateApiKey } from './api';
+import { isValidTimeZone } from './timezone';
+import { validateExcludeDates, validateTokenBucket } from './redaction';
+import { validateProjectAliases } from './projects';
+import { CliError } from './output';
 
-const CONFIG_DIR = path.join(os.homedir(), '.ccrank');
-const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
+const LEGACY_CONFIG_DIR = path.join(os.homedir(), '.ccrank');
+const CONFIG_FILENAME = 'config.json';
+// Project salt of setups with no stored profile (env-only config)
+const PROJECT_SALT_FILENAME = 'project-salt';
 
 // Default API endpoint (can be overridden in config)
 const DEFAULT_API_ENDPOINT = 'https://ccusageshare-leaderboard.vercel.app/api/sync';
 
+// Prefix of the fake keys written by old username-only setups
+const PLACEHOLDER_KEY_PREFIX = 'user_';
+
+// Profile stored in the top-level fields of config.json
+export const DEFAULT_PROFILE = 'default';
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+let activeProfile = process.env.CCRANK_PROFILE && PROFILE_NAME_PATTERN.test(process.env.CCRANK_PROFILE)
+  ? process.env.CCRANK_PROFILE
+  : DEFAULT_PROFILE;
+
+// Hook-triggered sync throttling, in seconds
+export const DEFAULT_SYNC_DEBOUNCE = 10;
+export const DEFAULT_MIN_SYNC_INTERVAL = 60;
+
+function validateSeconds(value: string): string | undefined {
+  return /^\d+$/.test(value) && Number(value) <= 86400 ? undefined : 'Must be a whole number of seconds (0-86400)';
+}
+
+// Environment variables that override config values without touching the file
+const ENV_OVERRIDES = {
+  apiKey: 'CCRANK_API_KEY',
+  apiEndpoint: 'CCRANK_ENDPOINT',
+} as const;
+
+/**
+ * Config keys that can be read and changed with `ccrank config`
+ */
+export const CONFIG_KEYS: Record<keyof Config, { description: string; secret?: boolean; validate: (value: string) => string | undefined }> = {
+  apiKey: {
+    description: 'API key used to authenticate uploads',
+    secret: true,
+    validate: value => validateApiKey(value) ? undefined : 'API keys are 20-256 characters long',
+  },
+  apiEndpoint: {
+    description: 'Sync API endpoint',
+    validate: value => {
+      try {
+        const url = new URL(value);
+        return url.protocol === 'https:' || url.protocol === 'http:' ? undefined : 'Endpoint must be an http(s) URL';
+      } catch {
+        return 'Endpoint must be a valid URL';
+      }
+    },
+  },
+  username: {
+    description: 'GitHub username the API key belongs to',
+    validate: value => /^[A-Za-z0-9](?:[A-Za-z0-9]|-(?=[A-Za-z0-9])){0,38}$/.test(value) ? undefined : 'Not a valid GitHub username',
+  },
+  source: {
+    description: 'Usage data source (ccusage, native)',
+    validate: value => (['ccusage', 'native'] as DataSource[]).includes(value as DataSource) ? undefined : 'Source must be ccusage or native',
+  },
+  deviceId: {
+    description: 'Stable ID for this machine',
+    validate: value => /^[A-Za-z0-9_-]{1,64}$/.test(value) ? undefined : "Device IDs are 1-64 alphanumeric, '-' or '_' characters",
+  },
+  timeZone: {
+    description: 'IANA time zone of usage dates (default: system zone)',
+    validate: value => isValidTimeZone(value) ? undefined : 'Not a known IANA time zone (e.g. Europe/Berlin)',
+  },
+  redactCost: {
+    description: 'Upload costs exactly (none), in whole dollars (round), or not at all (drop)',
+    validate: value => (['none', 'round', 'drop'] as CostRedaction[]).includes(value as CostRedaction) ? undefined : 'Must be none, round or drop',
+  },
+  tokenBucket: {
+    description: 'Round uploaded token counts to multiples of this size (0 = exact)',
+    validate: validateTokenBucket,
+  },
+  excludeModels: {
+    description: 'Comma-separated models to leave out of uploads (* wildcards)',
+    validate: value => value.split(',').some(item => item.trim()) ? undefined : 'List at least one model name',
+  },
+  excludeDates: {
+    description: 'Comma-separated dates or YYYY-MM-DD..YYYY-MM-DD ranges to leave out of uploads',
+    validate: validateExcludeDates,
+  },
+  shareProjects: {
+    description: 'Upload per-project breakdowns: off, hashed (salted hashes or aliases) or aliased (aliases only)',
+    validate: value => (['off', 'hashed', 'aliased'] as ProjectSharing[]).includes(value as ProjectSharing) ? undefined : 'Must be off, hashed or aliased',
+  },
+  projectAliases: {
+    description: 'Comma-separated path=alias pairs naming projects in uploads (e.g. ~/code/api=api)',
+    validate: validateProjectAliases,
+  },
+  projectAllowlist: {
+    description: 'Comma-separated path globs to break out per project; other usage is uploaded as "other"',
+    validate: value => value.split(',').some(item => item.trim()) ? undefined : 'List at least one path',
+  },
+  projectSalt: {
+    description: 'Secret salt for hashed project labels (created automatically; changing it renames every hashed project)',
+    secret: true,
+    validate: value => /^[a-f0-9]{32,128}$/.test(value) ? undefined : 'Must be 32-128 lowercase hex characters',
+  },
+  syncDebounce: {
+    description: `Seconds the SessionEnd hook waits for more sessions to end before syncing (default: ${DEFAULT_SYNC_DEBOUNCE})`,
+    validate: validateSeconds,
+  },
+  minSyncInterval: {
+    description: `Minimum seconds between hook-triggered syncs (default: ${DEFAULT_MIN_SYNC_INTERVAL})`,
+    validate: validateSeconds,
+  },
+};
+
+/**
+ * Get the directory holding config.json and other ccrank state files.
+ * $CCRANK_CONFIG_DIR wins; otherwise $XDG_CONFIG_HOME/ccrank is used unless
+ * an existing ~/.ccrank predates it.
+ */
+export function getConfigDir(): string {
+  if (process.env.CCRANK_CONFIG_DIR) {
+    return path.resolve(process.env.CCRANK_CONFIG_DIR);
+  }
+  if (process.env.XDG_CONFIG_HOME && !fs.existsSync(LEGACY_CONFIG_DIR)) {
+    return path.join(process.env.XDG_CONFIG_HOME, 'ccrank');
+  }
+  return LEGACY_CONFIG_DIR;
+}
+
+/**
+ * Get the path of config.json
+ */
+export function getConfigFile(): string {
+  return path.join(getConfigDir(), CONFIG_FILENAME);
+}
+
 /**
  * Ensure the config directory exists
  */
-function ensureConfigDir(): void {
-  if (!fs.existsSync(CONFIG_DIR)) {
-    fs.mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 });
+export function ensureConfigDir(): void {
+  const dir = getConfigDir();
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
   }
 }
 
 /**
- * Read configuration from disk
+ * Validate a profile name
  */
-export function readConfig(): Config | null {
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Select the profile that readConfig/writeConfig operate on
+ */
+export function setActiveProfile(name: string | undefined): void {
+  const profile = name || process.env.CCRANK_PROFILE || DEFAULT_PROFILE;
+  if (!isValidProfileName(profile)) {
+    throw new CliError(`Invalid profile name: ${profile}. Use 1-32 letters, digits, '-' or '_'.`, 'INVALID_ARGUMENT');
+  }
+  activeProfile = profile;
+}
+
+/**
+ * Get the name of the active profile
+ */
+export function getActiveProfile(): string {
+  return activeProfile;
+}
+
+/**
+ * Read the whole config.json, including every profile
+ */
+function readConfigStore(): ConfigFile | null {
   try {
-    if (!fs.existsSync(CONFIG_FILE)) {
+    const file = getConfigFile();
+    if (!fs.existsSync(file)) {
       return null;
     }
-    const data = fs.readFileSync(CONFIG_FILE, 'utf-8');
+    const data = fs.readFileSync(file, 'utf-8');
     return JSON.parse(data);
   } catch (error) {
-    throw new Error(`Failed to read config: ${error instanceof Error ? error.message : String(error)}`);
+    throw new CliError(`Failed to read config: ${error instanceof Error ? error.message : String(error)}`, 'INVALID_CONFIG');
+  }
+}
+
+function writeConfigStore(store: ConfigFile): void {
+  ensureConfigDir();
+  fs.writeFileSync(
+    getConfigFile(),
+    JSON.stringify(store, null, 2),
+    { mode: 0o600 }
+  );
+}
+
+/**
+ * List the profiles stored in config.json
+ */
+export function listProfiles(): string[] {
+  const store = readConfigStore();
+  const { profiles, ...defaults } = store || {};
+  const names = Object.keys(profiles || {});
+  return Object.keys(defaults).length > 0 ? [DEFAULT_PROFILE, ...names] : names;
+}
+
+/**
+ * Read the active profile as stored, without env var overrides
+ */
+export function readConfigFile(): Config | null {
+  const store = readConfigStore();
+  if (!store) {
+    return null;
+  }
+  if (activeProfile === DEFAULT_PROFILE) {
+    const { profiles, ...defaults } = store;
+    return Object.keys(defaults).length > 0 ? defaults as Config : null;
+  }
+  return (store.profiles?.[activeProfile] as Config | undefined) || null;
+}
+
+/**
+ * Name of the env var currently overriding a config key, if any
+ */
+export function getEnvOverride(key: keyof Config): string | undefined {
+  const name = (ENV_OVERRIDES as Partial<Record<keyof Config, string>>)[key];
+  return name && process.env[name] ? name : undefined;
+}
+
+/**
+ * Read the active profile's configuration, with CCRANK_API_KEY and
+ * CCRANK_ENDPOINT applied on top. Returns null when there is neither a
+ * stored profile nor an env key.
+ */
+export function readConfig(): Config | null {
+  const config = readConfigFile();
+  const overrides: Partial<Config> = {};
+  for (const key of Object.keys(ENV_OVERRIDES) as Array<keyof typeof ENV_OVERRIDES>) {
+    const value = process.env[ENV_OVERRIDES[key]];
+    if (value) {
+      overrides[key] = value;
+    }
   }
+
+  if (!config && !overrides.apiKey) {
+    return config;
+  }
+  return { ...config, ...overrides } as Config;
 }
 
 /**
- * Write configuration to disk
+ * Write the active profile's configuration to disk, keeping other profiles.
+ * Values that only came from env var overrides are not persisted.
  */
 export function writeConfig(config: Config): void {
   try {
-    ensureConfigDir();
-    fs.writeFileSync(
-      CONFIG_FILE,
-      JSON.stringify(config, null, 2),
-      { mode: 0o600 }
-    );
+    const stored = readConfigFile();
+    const result: Partial<Config> = { ...config };
+    for (const key of Object.keys(ENV_OVERRIDES) as Array<keyof typeof ENV_OVERRIDES>) {
+      if (process.env[ENV_OVERRIDES[key]] && result[key] === process.env[ENV_OVERRIDES[key]]) {
+        if (stored?.[key] !== undefined) {
+          result[key] = stored[key];
+        } else {
+          delete result[key];
+        }
+      }
+    }
+
+    const store = readConfigStore() || {};
+    if (activeProfile === DEFAULT_PROFILE) {
+      writeConfigStore(store.profiles ? { ...result, profiles: store.profiles } : result);
+    } else {
+      const { profiles, ...defaults } = store;
+      writeConfigStore({ ...defaults, profiles: { ...profiles, [activeProfile]: result } });
+    }
   } catch (error) {
     throw new Error(`Failed to write config: ${error instanceof Error ? error.message : String(error)}`);
   }
@@ -61,12 +300,79 @@ export function getApiEndpoint(config: Config | null): string {
   return config?.apiEndpoint || DEFAULT_API_ENDPOINT;
 }
 
+/**
+ * Get the web app base URL (the origin of the API endpoint)
+ */
+export function getWebUrl(config: Config | null): string {
+  return new URL(getApiEndpoint(config)).origin;
+}
+
+/**
+ * Get this machine's stable device ID.
+ * Uses the ID saved in config, otherwise derives one from the host and OS user
+ * so that syncs without a config file still map to the same device.
+ */
+export function getDeviceId(config: Config | null): string {
+  if (config?.deviceId) {
+    return config.deviceId;
+  }
+  return createHash('sha256')
+    .update(`${os.hostname()}:${os.userInfo().username}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Get the secret salt for hashed project labels.
+ * Created on first use and saved so labels stay the same across syncs; being
+ * random, it can't be recomputed from guessed repo names. It goes to the
+ * stored profile, or to its own file when only env vars configure ccrank
+ * (e.g. CCRANK_API_KEY on CI). With `save: false` a missing salt is replaced
+ * by a one-off one, so previews don't create a salt before the first sync.
+ */
+export function getProjectSalt(config: Config | null, options: { save?: boolean } = {}): string {
+  const { save = true } = options;
+  if (config?.projectSalt) {
+    return config.projectSalt;
+  }
+  const saltFile = path.join(getConfigDir(), PROJECT_SALT_FILENAME);
+  try {
+    const saved = fs.readFileSync(saltFile, 'utf-8').trim();
+    if (!CONFIG_KEYS.projectSalt.validate(saved)) {
+      return saved;
+    }
+  } catch {
+    // No salt saved outside the profile yet
+  }
+
+  const salt = randomBytes(16).toString('hex');
+  if (!save) {
+    return salt;
+  }
+  // Re-read the stored profile so fields saved since `config` was read are kept
+  const stored = readConfigFile();
+  if (stored) {
+    writeConfig({ ...stored, projectSalt: salt });
+  } else {
+    ensureConfigDir();
+    fs.writeFileSync(saltFile, `${salt}\n`, { mode: 0o600 });
+  }
+  return salt;
+}
+
+/**
+ * Check whether a config holds a real API key.
+ * Older username-only setups stored a "user_<name>" placeholder instead.
+ */
+export function hasApiKey(config: Config | null): boolean {
+  return !!config && !!config.apiKey && !config.apiKey.startsWith(PLACEHOLDER_KEY_PREFIX);
+}
+
 /**
  * Check if user is authenticated
  */
 export function isAuthenticated(): boolean {
-  const config = readConfig();
-  return config !== null && !!config.apiKey;
+  return hasApiKey(readConfig());
 }
 
 /**
@@ -74,17 +380,39 @@ export function isAuthenticated(): boolean {
  */
 export function requireAuth(): Config {
   const config = readConfig();
-  if (!config || !config.apiKey) {
-    throw new Error('Not authenticated. Please run: ccrank setup <api-key>');
+  if (!config || !hasApiKey(config)) {
+    throw new CliError(
+      'Not authenticated. Please run: ccrank login\n' +
+      `Or get an API key at ${getWebUrl(config)}/setup and run: ccrank setup <api-key>`,
+      'NOT_AUTHENTICATED'
+    );
   }
   return config;
 }
 
 /**
- * Clear configuration (logout)
+ * Clear the active profile's configuration (logout).
+ * The file is deleted once no profile is left.
  */
 export function clearConfig(): void {
-  if (fs.existsSync(CONFIG_FILE)) {
-    fs.unlinkSync(CONFIG_FILE);
+  const file = getConfigFile();
+  const store = readConfigStore();
+  if (!store) {
+    return;
+  }
+
+  const { profiles, ...defaults } = store;
+  const remaining: ConfigFile = activeProfile === DEFAULT_PROFILE ? {} : defaults;
+  const otherProfiles = Object.fromEntries(
+    Object.entries(profiles || {}).filter(([name]) => name !== activeProfile)
+  );
+  if (Object.keys(otherProfiles).length > 0) {
+    remaining.profiles = otherProfiles;
+  }
+
+  if (Object.keys(remaining).length === 0) {
+    fs.unlinkSync(file);
+  } else {
+    writeConfigStore(remaining);
   }
 }
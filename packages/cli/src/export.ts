@@ -0,0 +1,71 @@
+/**
+ * Usage export
+ * Serialises leaderboard entries (local) or the days stored on the server
+ * (remote) as CSV, JSON or NDJSON for spreadsheets and BI tools.
+ */
+
+import { isValidDate } from './redaction';
+import { ExportFormat, LeaderboardEntry, RemoteStatsDay } from './types';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+export type ExportRow = LeaderboardEntry | RemoteStatsDay;
+
+// One CSV row per day (and device, for remote rows); breakdowns are only in JSON
+const CSV_COLUMNS: Array<[string, (row: ExportRow) => string | number | undefined]> = [
+  ['date', row => row.date],
+  ['utcDate', row => row.utcDate],
+  ['timezoneOffset', row => row.timezoneOffset],
+  ['deviceId', row => 'deviceId' in row ? row.deviceId : undefined],
+  ['inputTokens', row => row.inputTokens],
+  ['outputTokens', row => row.outputTokens],
+  ['cacheCreationTokens', row => row.cacheCreationTokens],
+  ['cacheReadTokens', row => row.cacheReadTokens],
+  ['totalTokens', row => row.totalTokens],
+  ['totalCost', row => row.totalCost],
+  ['modelsUsed', row => row.modelsUsed.join(';')],
+];
+
+function escapeCsv(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Validate a --since/--until window; returns an error message if invalid
+ */
+export function validateDateWindow(since?: string, until?: string): string | undefined {
+  for (const [flag, value] of [['--since', since], ['--until', until]]) {
+    if (value !== undefined && !isValidDate(value)) {
+      return `${flag} must be a date (YYYY-MM-DD), got: ${value}`;
+    }
+  }
+  if (since && until && since > until) {
+    return '--since must not be after --until';
+  }
+  return undefined;
+}
+
+/**
+ * Keep rows whose date falls within an inclusive YYYY-MM-DD range
+ */
+export function filterByDate<T extends { date: string }>(rows: T[], since?: string, until?: string): T[] {
+  return rows.filter(row => (!since || row.date >= since) && (!until || row.date <= until));
+}
+
+/**
+ * Serialise rows in the given format
+ */
+export function formatExport(rows: ExportRow[], format: ExportFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(rows, null, 2)}\n`;
+    case 'ndjson':
+      return rows.map(row => `${JSON.stringify(row)}\n`).join('');
+    case 'csv':
+      return [
+        CSV_COLUMNS.map(([name]) => name).join(','),
+        ...rows.map(row => CSV_COLUMNS.map(([, get]) => escapeCsv(get(row))).join(',')),
+      ].join('\n') + '\n';
+  }
+}
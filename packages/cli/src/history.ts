@@ -0,0 +1,134 @@
+/**
+ * Local usage history
+ * Groups daily usage into days, ISO weeks or months (the same buckets the
+ * server's usage charts use) and draws them as terminal charts.
+ */
+
+import { DailyUsage } from './types';
+
+export type HistoryBucket = 'day' | 'week' | 'month';
+
+export const HISTORY_BUCKETS: HistoryBucket[] = ['day', 'week', 'month'];
+
+// Default window per bucket, in days (as on the server)
+export const HISTORY_WINDOW_DAYS: Record<HistoryBucket, number> = {
+  day: 30,
+  week: 84,
+  month: 365,
+};
+
+export interface HistoryRow {
+  key: string; // First date of the bucket (YYYY-MM-DD)
+  days: number; // Days with usage in the bucket
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  totalCost: number;
+}
+
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+const BAR_CHARS = ' ▏▎▍▌▋▊▉█';
+
+/**
+ * Monday of the ISO week of a date (YYYY-MM-DD)
+ */
+function getISOWeekMonday(dateStr: string): string {
+  const date = new Date(dateStr + 'T00:00:00Z');
+  const day = date.getUTCDay(); // 0=Sun, 1=Mon, ..., 6=Sat
+  const diff = day === 0 ? -6 : 1 - day;
+  date.setUTCDate(date.getUTCDate() + diff);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * First day of the month of a date (YYYY-MM-DD)
+ */
+function getMonthStart(dateStr: string): string {
+  return dateStr.slice(0, 7) + '-01';
+}
+
+/**
+ * Bucket key of a date: the day itself, its week's Monday, or its month's first day
+ */
+export function getBucketKey(dateStr: string, bucketBy: HistoryBucket): string {
+  switch (bucketBy) {
+    case 'day':
+      return dateStr;
+    case 'week':
+      return getISOWeekMonday(dateStr);
+    case 'month':
+      return getMonthStart(dateStr);
+  }
+}
+
+/**
+ * Key of the bucket after the given one
+ */
+function nextBucketKey(key: string, bucketBy: HistoryBucket): string {
+  const date = new Date(key + 'T00:00:00Z');
+  if (bucketBy === 'month') {
+    date.setUTCMonth(date.getUTCMonth() + 1);
+  } else {
+    date.setUTCDate(date.getUTCDate() + (bucketBy === 'week' ? 7 : 1));
+  }
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Sum days into buckets, oldest first. Buckets without usage between the
+ * first and last date are included as zeros so charts keep their time axis.
+ */
+export function bucketUsage(daily: DailyUsage[], bucketBy: HistoryBucket, range: { since?: string; until?: string } = {}): HistoryRow[] {
+  const rows = new Map<string, HistoryRow>();
+  for (const day of daily) {
+    const key = getBucketKey(day.date, bucketBy);
+    let row = rows.get(key);
+    if (!row) {
+      row = { key, days: 0, inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, totalTokens: 0, totalCost: 0 };
+      rows.set(key, row);
+    }
+    row.days++;
+    row.inputTokens += day.inputTokens || 0;
+    row.outputTokens += day.outputTokens || 0;
+    row.cacheCreationTokens += day.cacheCreationTokens || 0;
+    row.cacheReadTokens += day.cacheReadTokens || 0;
+    row.totalTokens += day.totalTokens || 0;
+    row.totalCost += day.totalCost || 0;
+  }
+
+  const keys = Array.from(rows.keys()).sort();
+  if (keys.length === 0) {
+    return [];
+  }
+  const first = range.since ? getBucketKey(range.since, bucketBy) : keys[0];
+  const last = range.until ? getBucketKey(range.until, bucketBy) : keys[keys.length - 1];
+
+  const result: HistoryRow[] = [];
+  for (let key = first; key <= last; key = nextBucketKey(key, bucketBy)) {
+    result.push(rows.get(key) || { key, days: 0, inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, totalTokens: 0, totalCost: 0 });
+  }
+  return result;
+}
+
+/**
+ * One-line sparkline of a series (▁▂▃▄▅▆▇█)
+ */
+export function sparkline(values: number[]): string {
+  const max = Math.max(0, ...values);
+  return values
+    .map(value => max > 0 ? SPARK_CHARS[Math.min(SPARK_CHARS.length - 1, Math.floor((value / max) * (SPARK_CHARS.length - 1)))] : SPARK_CHARS[0])
+    .join('');
+}
+
+/**
+ * Horizontal bar scaled to `max`, in eighths of a character
+ */
+export function bar(value: number, max: number, width: number): string {
+  if (max <= 0 || value <= 0) {
+    return '';
+  }
+  const eighths = Math.max(1, Math.round((value / max) * width * 8));
+  return '█'.repeat(Math.floor(eighths / 8)) + (eighths % 8 ? BAR_CHARS[eighths % 8] : '');
+}
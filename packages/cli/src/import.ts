@@ -0,0 +1,265 @@
+/**
+ * Usage import
+ * Reads saved usage history back into ccusage's daily format so it can be
+ * synced like live data: ccusage JSON reports (daily, or per project with
+ * --instances) and `ccrank export` output as JSON, NDJSON or CSV.
+ */
+
+import { describeUnsupportedReport, normalizeUsageReport, validateCCUsageData } from './transformer';
+import { isValidDate } from './redaction';
+import { CliError } from './output';
+import { DailyUsage, ModelBreakdown } from './types';
+
+export type ImportFormat = 'ccusage' | 'json' | 'ndjson' | 'csv';
+
+export interface ImportedFile {
+  file: string;
+  format: ImportFormat;
+  days: DailyUsage[];
+  daysWithoutCost: number; // Days with a hidden or redacted cost, uploaded without one
+}
+
+/**
+ * A day found with different totals in more than one file
+ */
+export interface ImportConflict {
+  date: string;
+  kept: string; // File whose copy of the day is imported
+  copies: Array<{ file: string; totalTokens: number; totalCost?: number }>;
+}
+
+const TOKEN_FIELDS = ['inputTokens', 'outputTokens', 'cacheCreationTokens', 'cacheReadTokens'] as const;
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value !== ''));
+}
+
+/**
+ * Convert one exported row (local or remote export, or a ccusage day) to a
+ * ccusage day. Project breakdowns are dropped: exports only hold their
+ * aliases or hashes, which can't be mapped back to directories. A hidden or
+ * redacted cost is left out, so the server records the day's cost as hidden.
+ */
+function rowToDailyUsage(value: unknown, where: string): DailyUsage {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new CliError(`${where}: expected an object per day`, 'INVALID_DATA');
+  }
+  const row = value as Record<string, unknown>;
+  if (typeof row.date !== 'string' || !isValidDate(row.date)) {
+    throw new CliError(`${where}: missing or invalid date`, 'INVALID_DATA');
+  }
+
+  const count = (field: string): number | undefined => {
+    const value = row[field];
+    if (value === undefined || value === null || value === '') return undefined;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) {
+      throw new CliError(`${where}: ${field} is not a non-negative number`, 'INVALID_DATA');
+    }
+    return number;
+  };
+
+  const tokens = TOKEN_FIELDS.map(field => count(field) ?? 0);
+  const modelsUsed = Array.isArray(row.modelsUsed)
+    ? row.modelsUsed.map(String)
+    : typeof row.modelsUsed === 'string' ? row.modelsUsed.split(';').filter(Boolean) : [];
+  const modelBreakdowns: ModelBreakdown[] = Array.isArray(row.modelBreakdowns)
+    ? row.modelBreakdowns.map((entry: unknown) => {
+      const model = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+      return {
+        modelName: String(model.modelName),
+        inputTokens: Number(model.inputTokens) || 0,
+        outputTokens: Number(model.outputTokens) || 0,
+        cacheCreationTokens: Number(model.cacheCreationTokens) || 0,
+        cacheReadTokens: Number(model.cacheReadTokens) || 0,
+        cost: Number(model.cost) || 0,
+      };
+    })
+    : [];
+
+  return {
+    date: row.date,
+    inputTokens: tokens[0],
+    outputTokens: tokens[1],
+    cacheCreationTokens: tokens[2],
+    cacheReadTokens: tokens[3],
+    totalTokens: count('totalTokens') ?? tokens.reduce((sum, value) => sum + value, 0),
+    totalCost: count('totalCost'),
+    modelsUsed,
+    modelBreakdowns,
+  };
+}
+
+/**
+ * Add one day's usage to another (remote exports have a row per device).
+ * The sum has no cost if either copy's cost is hidden.
+ */
+function addUsage(target: DailyUsage, usage: DailyUsage): void {
+  for (const field of [...TOKEN_FIELDS, 'totalTokens'] as const) {
+    target[field] += usage[field];
+  }
+  target.totalCost = target.totalCost === undefined || usage.totalCost === undefined
+    ? undefined
+    : target.totalCost + usage.totalCost;
+  target.modelsUsed = Array.from(new Set([...target.modelsUsed, ...usage.modelsUsed]));
+  for (const model of usage.modelBreakdowns) {
+    const existing = target.modelBreakdowns.find(m => m.modelName === model.modelName);
+    if (existing) {
+      for (const field of TOKEN_FIELDS) existing[field] += model[field];
+      existing.cost += model.cost;
+    } else {
+      target.modelBreakdowns.push({ ...model });
+    }
+  }
+}
+
+function rowsToImportedFile(file: string, format: ImportFormat, rows: Array<{ row: unknown; where: string }>): ImportedFile {
+  const days = new Map<string, DailyUsage>();
+  for (const { row, where } of rows) {
+    const day = rowToDailyUsage(row, where);
+    const existing = days.get(day.date);
+    if (existing) {
+      addUsage(existing, day);
+    } else {
+      days.set(day.date, day);
+    }
+  }
+  const values = Array.from(days.values());
+  return { file, format, days: values, daysWithoutCost: values.filter(day => day.totalCost === undefined).length };
+}
+
+/**
+ * Parse a saved report, detecting its format from the content
+ */
+export function parseImportFile(file: string, text: string): ImportedFile {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new CliError(`${file} is empty`, 'INVALID_DATA');
+  }
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      // Not one JSON document: NDJSON has one object per line
+      const lines = trimmed.split(/\r?\n/);
+      return rowsToImportedFile(file, 'ndjson', lines
+        .map((line, index) => ({ line: line.trim(), where: `${file}:${index + 1}` }))
+        .filter(({ line }) => line)
+        .map(({ line, where }) => {
+          try {
+            return { row: JSON.parse(line), where };
+          } catch {
+            throw new CliError(`${where}: not valid JSON`, 'INVALID_DATA');
+          }
+        }));
+    }
+
+    if (Array.isArray(data)) {
+      return rowsToImportedFile(file, 'json', data.map((row, index) => ({ row, where: `${file} (row ${index + 1})` })));
+    }
+
+    const report = normalizeUsageReport(data);
+    if (report && typeof report === 'object' && !Array.isArray(report.daily) && 'date' in report) {
+      // A single NDJSON line
+      return rowsToImportedFile(file, 'ndjson', [{ row: report, where: `${file}:1` }]);
+    }
+    const unsupported = describeUnsupportedReport(report);
+    if (unsupported) {
+      throw new CliError(`${file}: ${unsupported.split('\n')[0]}`, 'INVALID_DATA');
+    }
+    if (!validateCCUsageData(report)) {
+      throw new CliError(`${file} is not a ccusage daily report or ccrank export`, 'INVALID_DATA');
+    }
+    for (const day of report.daily) {
+      if (typeof day.date !== 'string' || !isValidDate(day.date)) {
+        throw new CliError(`${file}: invalid date ${JSON.stringify(day.date)}`, 'INVALID_DATA');
+      }
+    }
+    return { file, format: 'ccusage', days: report.daily, daysWithoutCost: 0 };
+  }
+
+  const [header, ...rows] = parseCsv(trimmed);
+  if (!header || header[0] !== 'date') {
+    throw new CliError(`${file} is not a ccusage JSON report or ccrank export (JSON, NDJSON or CSV)`, 'INVALID_DATA');
+  }
+  return rowsToImportedFile(file, 'csv', rows.map((fields, index) => ({
+    row: Object.fromEntries(header.map((name, column) => [name, fields[column]])),
+    where: `${file}:${index + 2}`,
+  })));
+}
+
+function sameUsage(a: DailyUsage, b: DailyUsage): boolean {
+  const cents = (day: DailyUsage) => day.totalCost === undefined ? undefined : Math.round(day.totalCost * 100);
+  return [...TOKEN_FIELDS, 'totalTokens' as const].every(field => a[field] === b[field]) && cents(a) === cents(b);
+}
+
+/**
+ * Merge files by date. A day found in several files with different totals is
+ * a conflict; the copy with the most tokens (the most complete record) is
+ * kept, and the first file wins ties.
+ */
+export function mergeImportedDays(files: ImportedFile[]): { days: DailyUsage[]; conflicts: ImportConflict[] } {
+  const copies = new Map<string, Array<{ file: string; day: DailyUsage }>>();
+  for (const { file, days } of files) {
+    for (const day of days) {
+      const list = copies.get(day.date) || [];
+      list.push({ file, day });
+      copies.set(day.date, list);
+    }
+  }
+
+  const days: DailyUsage[] = [];
+  const conflicts: ImportConflict[] = [];
+  for (const [date, list] of Array.from(copies.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    const kept = list.reduce((best, copy) => copy.day.totalTokens > best.day.totalTokens ? copy : best);
+    days.push(kept.day);
+    if (list.some(copy => !sameUsage(copy.day, kept.day))) {
+      conflicts.push({
+        date,
+        kept: kept.file,
+        copies: list.map(({ file, day }) => ({ file, totalTokens: day.totalTokens, totalCost: day.totalCost })),
+      });
+    }
+  }
+  return { days, conflicts };
+}
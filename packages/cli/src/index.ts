@@ -6,7 +6,34 @@ export * from './types';
 export * from './config';
 export * from './transformer';
 export * from './api';
+export * from './ledger';
+export * from './sources';
+export * from './transcripts';
+export * from './pricing';
+export * from './timezone';
+export * from './redaction';
+export * from './projects';
+export * from './queue';
+export * from './lock';
+export * from './output';
+export * from './export';
+export * from './import';
+export * from './leaderboard';
+export * from './history';
+export * from './claudeSettings';
 export { setupCommand } from './commands/setup';
+export { loginCommand } from './commands/login';
 export { syncCommand } from './commands/sync';
 export { statusCommand } from './commands/status';
+export { whoamiCommand } from './commands/whoami';
+export { leaderboardCommand } from './commands/leaderboard';
+export { topCommand } from './commands/top';
+export { historyCommand } from './commands/history';
 export { logoutCommand } from './commands/logout';
+export { uninstallCommand } from './commands/uninstall';
+export { queueCommand } from './commands/queue';
+export { configCommand } from './commands/config';
+export { hookCommand } from './commands/hook';
+export { exportCommand } from './commands/export';
+export { importCommand } from './commands/import';
+export { doctorCommand } from './commands/doctor';
@@ -0,0 +1,132 @@
+/**
+ * Terminal leaderboard
+ * Renders the public leaderboard as a text table, with the same number
+ * formats and rank-change markers as the web page.
+ */
+
+import chalk from 'chalk';
+import { LeaderboardPeriod, PublicLeaderboardEntry, PublicLeaderboardResponse } from './types';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'monthly', 'alltime'];
+
+// Labels of the web page's period tabs
+export const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  daily: '24 hours',
+  weekly: '7 days',
+  monthly: '30 days',
+  alltime: 'All-Time',
+};
+
+const RANK_COLORS = [chalk.hex('#D4AF37'), chalk.hex('#A8A9AD'), chalk.hex('#CD7F32')];
+
+/**
+ * Format large numbers (e.g. 2400000 -> "2.4M")
+ */
+export function formatTokens(tokens: number): string {
+  if (!Number.isFinite(tokens)) return '-';
+  if (tokens < 0) return '0';
+  if (tokens >= 1_000_000_000) return `${(tokens / 1_000_000_000).toFixed(1)}B`;
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+  return tokens.toLocaleString();
+}
+
+/**
+ * Format a cost in dollars (e.g. 156.8 -> "$156.80")
+ */
+export function formatCost(cost: number): string {
+  if (!Number.isFinite(cost)) return '$-.--';
+  return `$${Math.max(cost, 0).toFixed(2)}`;
+}
+
+/**
+ * Format a timestamp relative to now (e.g. "2h ago")
+ */
+export function formatRelativeTime(timestamp: string | number, now: number = Date.now()): string {
+  const diff = now - new Date(timestamp).getTime();
+  const minutes = Math.floor(diff / 60_000);
+  const hours = Math.floor(diff / 3_600_000);
+  const days = Math.floor(diff / 86_400_000);
+
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  if (days < 30) return `${days}d ago`;
+  if (days < 365) return `${Math.floor(days / 30)}mo ago`;
+  return `${Math.floor(days / 365)}y ago`;
+}
+
+/**
+ * Rank change marker: "NEW", "▲ 2", "▼ 1" or "--"
+ */
+function formatRankChange(rankChange: PublicLeaderboardEntry['rankChange'], width: number): string {
+  if (rankChange === null) return ' '.repeat(width);
+  if (rankChange === 'new') return chalk.bgHex('#CCFF6F').hex('#1a1a1a').bold('NEW') + ' '.repeat(width - 3);
+  if (rankChange > 0) return chalk.green(`▲ ${rankChange}`.padEnd(width));
+  if (rankChange < 0) return chalk.red(`▼ ${Math.abs(rankChange)}`.padEnd(width));
+  return chalk.gray('--'.padEnd(width));
+}
+
+/**
+ * Render the leaderboard as table lines.
+ * `highlight` marks the row of the given username; `width` caps the line length.
+ */
+export function renderLeaderboard(
+  data: PublicLeaderboardResponse,
+  options: { highlight?: string; width?: number } = {}
+): string[] {
+  if (data.entries.length === 0) {
+    return [chalk.gray('No data yet. Usage appears here once developers sync.')];
+  }
+
+  const withChange = data.entries.some(entry => entry.rankChange !== null);
+  const rankWidth = Math.max(4, String(data.entries[data.entries.length - 1].rank).length);
+  const changeWidth = withChange ? 5 : 0;
+  const tokensWidth = 8;
+  const costWidth = 11;
+  const syncedWidth = 9;
+  const fixed = rankWidth + (withChange ? changeWidth + 2 : 0) + 2 + tokensWidth + 2 + costWidth + 2 + syncedWidth + 2;
+  const longest = Math.max(4, ...data.entries.map(entry => entry.username.length + 1));
+  const userWidth = Math.max(8, Math.min(longest, (options.width || 100) - fixed));
+
+  const cell = (text: string, width: number, align: 'left' | 'right' = 'left') => {
+    const clipped = text.length > width ? `${text.slice(0, width - 1)}…` : text;
+    return align === 'left' ? clipped.padEnd(width) : clipped.padStart(width);
+  };
+  const join = (cells: string[]) => `  ${cells.filter(Boolean).join('  ')}`;
+
+  const lines = [chalk.gray(join([
+    cell('Rank', rankWidth, 'right'),
+    withChange ? ' '.repeat(changeWidth) : '',
+    cell('User', userWidth),
+    cell('Tokens', tokensWidth, 'right'),
+    cell('Cost', costWidth, 'right'),
+    cell('Synced', syncedWidth, 'right'),
+  ]))];
+
+  for (const entry of data.entries) {
+    const rankText = cell(String(entry.rank), rankWidth, 'right');
+    const mine = options.highlight !== undefined && entry.username.toLowerCase() === options.highlight.toLowerCase();
+    const user = cell(`@${entry.username}`, userWidth);
+    lines.push(join([
+      entry.rank <= 3 ? RANK_COLORS[entry.rank - 1].bold(rankText) : chalk.gray(rankText),
+      withChange ? formatRankChange(entry.rankChange, changeWidth) : '',
+      mine ? chalk.cyan.bold(user) : user,
+      cell(formatTokens(entry.totalTokens), tokensWidth, 'right'),
+      entry.costHidden || entry.totalCost === null
+        ? chalk.gray(cell('hidden', costWidth, 'right'))
+        : cell(formatCost(entry.totalCost), costWidth, 'right'),
+      chalk.gray(cell(entry.lastSyncedAt ? formatRelativeTime(entry.lastSyncedAt) : '-', syncedWidth, 'right')),
+    ]));
+  }
+  return lines;
+}
+
+/**
+ * Title line: period, team and totals
+ */
+export function describeLeaderboard(data: PublicLeaderboardResponse): string {
+  const scope = data.team ? ` · ${data.team.name}` : '';
+  const totals = `${data.summary.totalUsers} users · ${formatTokens(data.summary.totalTokens)} tokens · ${formatCost(data.summary.totalCost)}`;
+  return `${chalk.bold(`Leaderboard — ${PERIOD_LABELS[data.period]}${scope}`)}  ${chalk.gray(totals)}`;
+}
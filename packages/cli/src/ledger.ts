@@ -0,0 +1,109 @@
+/**
+ * Sync ledger for incremental uploads
+ * Tracks a content hash per date in <config dir>/ledger.json so that only
+ * days that changed since the last successful sync are sent to the server.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { getConfigDir, ensureConfigDir } from './config';
+import { LeaderboardEntry, SyncLedger, SyncLedgerFile } from './types';
+
+const LEDGER_FILENAME = 'ledger.json';
+
+function getLedgerFile(): string {
+  return path.join(getConfigDir(), LEDGER_FILENAME);
+}
+
+/**
+ * Build the ledger target key for an endpoint/username/device triple.
+ * A ledger recorded against a different target is ignored.
+ */
+export function getLedgerTarget(apiEndpoint: string, username: string, deviceId: string): string {
+  return `${apiEndpoint}#${username.toLowerCase()}@${deviceId}`;
+}
+
+/**
+ * Read every target's ledger.
+ * Files written before profiles existed hold a single { target, days } ledger.
+ */
+function readLedgerFile(): SyncLedgerFile {
+  try {
+    const file = getLedgerFile();
+    if (!fs.existsSync(file)) {
+      return { targets: {} };
+    }
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (data?.targets && typeof data.targets === 'object') {
+      return data as SyncLedgerFile;
+    }
+    if (typeof data?.target === 'string' && data.days && typeof data.days === 'object') {
+      return { targets: { [data.target]: data.days } };
+    }
+    return { targets: {} };
+  } catch {
+    // A corrupt ledger only costs us a full re-sync
+    return { targets: {} };
+  }
+}
+
+/**
+ * Read the sync ledger for a target, or an empty ledger if none exists
+ */
+export function readLedger(target: string): SyncLedger {
+  const days = readLedgerFile().targets[target];
+  return { target, days: days && typeof days === 'object' ? days : {} };
+}
+
+/**
+ * Write a target's sync ledger to disk, keeping other targets
+ */
+export function writeLedger(ledger: SyncLedger): void {
+  try {
+    const file = readLedgerFile();
+    file.targets[ledger.target] = ledger.days;
+    ensureConfigDir();
+    fs.writeFileSync(getLedgerFile(), JSON.stringify(file, null, 2), { mode: 0o600 });
+  } catch (error) {
+    throw new Error(`Failed to write sync ledger: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Delete the sync ledger, forcing the next sync to upload everything
+ */
+export function clearLedger(): void {
+  const file = getLedgerFile();
+  if (fs.existsSync(file)) {
+    fs.unlinkSync(file);
+  }
+}
+
+/**
+ * Hash the uploaded content of an entry.
+ * The sync timestamp is excluded so unchanged days hash identically.
+ */
+export function hashEntry(entry: LeaderboardEntry): string {
+  const { timestamp, ...content } = entry;
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+/**
+ * Return the entries whose content differs from what the ledger last recorded
+ */
+export function getChangedEntries(entries: LeaderboardEntry[], ledger: SyncLedger): LeaderboardEntry[] {
+  return entries.filter(entry => ledger.days[entry.date]?.hash !== hashEntry(entry));
+}
+
+/**
+ * Record entries as uploaded
+ */
+export function recordUploaded(ledger: SyncLedger, entries: LeaderboardEntry[]): SyncLedger {
+  const uploadedAt = new Date().toISOString();
+  const days = { ...ledger.days };
+  for (const entry of entries) {
+    days[entry.date] = { hash: hashEntry(entry), uploadedAt };
+  }
+  return { ...ledger, days };
+}
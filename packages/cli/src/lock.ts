@@ -0,0 +1,260 @@
+/**
+ * Sync coordination
+ * A lock file (<config dir>/sync.lock) keeps concurrent ccrank processes from
+ * syncing at once. Hook runs don't sync straight away: each records a request,
+ * and only the latest request for the same options syncs, after a quiet period
+ * and no sooner than the minimum interval since the last sync.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { getConfigDir, ensureConfigDir, DEFAULT_MIN_SYNC_INTERVAL, DEFAULT_SYNC_DEBOUNCE } from './config';
+import { Config } from './types';
+
+const LOCK_FILENAME = 'sync.lock';
+const STATE_FILENAME = 'sync-state.json';
+const REQUESTS_DIRNAME = 'sync-requests';
+
+// A lock older than this is left over from a crashed or hung sync
+const STALE_LOCK_MS = 10 * 60 * 1000;
+const LOCK_POLL_MS = 500;
+
+export interface SyncLockHolder {
+  pid: number;
+  createdAt: string;
+}
+
+export interface SyncThrottle {
+  debounceMs: number;
+  minIntervalMs: number;
+}
+
+function getLockFile(): string {
+  return path.join(getConfigDir(), LOCK_FILENAME);
+}
+
+function getStateFile(): string {
+  return path.join(getConfigDir(), STATE_FILENAME);
+}
+
+function getRequestFile(key: string): string {
+  const hash = createHash('sha256').update(key).digest('hex').slice(0, 16);
+  return path.join(getConfigDir(), REQUESTS_DIRNAME, `${hash}.json`);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Write a file so that concurrent readers never see it half-written
+ */
+function writeFileAtomic(file: string, data: string): void {
+  const temp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(temp, data, { mode: 0o600 });
+  fs.renameSync(temp, file);
+}
+
+/**
+ * Read the throttle settings from a profile's config
+ */
+export function getSyncThrottle(config?: Config | null): SyncThrottle {
+  const seconds = (value: string | undefined, fallback: number) =>
+    value !== undefined && /^\d+$/.test(value) ? Number(value) : fallback;
+  return {
+    debounceMs: seconds(config?.syncDebounce, DEFAULT_SYNC_DEBOUNCE) * 1000,
+    minIntervalMs: seconds(config?.minSyncInterval, DEFAULT_MIN_SYNC_INTERVAL) * 1000,
+  };
+}
+
+/**
+ * The process holding the sync lock, or undefined if it is free or stale
+ */
+export function getSyncLockHolder(): SyncLockHolder | undefined {
+  try {
+    const holder: SyncLockHolder = JSON.parse(fs.readFileSync(getLockFile(), 'utf-8'));
+    const age = Date.now() - new Date(holder.createdAt).getTime();
+    if (!isProcessAlive(holder.pid) || !(age < STALE_LOCK_MS)) {
+      return undefined;
+    }
+    return holder;
+  } catch {
+    // Missing, or mid-write by its owner
+    return undefined;
+  }
+}
+
+/**
+ * Take the sync lock without waiting.
+ * Returns a function that releases it, or undefined if another process holds it.
+ */
+export function acquireSyncLock(): (() => void) | undefined {
+  ensureConfigDir();
+  const file = getLockFile();
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const fd = fs.openSync(file, 'wx', 0o600);
+      const holder: SyncLockHolder = { pid: process.pid, createdAt: new Date().toISOString() };
+      fs.writeSync(fd, JSON.stringify(holder));
+      fs.closeSync(fd);
+
+      return () => {
+        try {
+          // Don't remove a lock that was broken as stale and taken over
+          const current: SyncLockHolder = JSON.parse(fs.readFileSync(file, 'utf-8'));
+          if (current.pid === holder.pid && current.createdAt === holder.createdAt) {
+            fs.unlinkSync(file);
+          }
+        } catch {
+          // Already gone
+        }
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    // Break a stale lock once, then try again
+    if (getSyncLockHolder()) {
+      return undefined;
+    }
+    try {
+      const stat = fs.statSync(file);
+      // A lock created a moment ago may still be getting its contents written
+      if (Date.now() - stat.mtimeMs < LOCK_POLL_MS * 4 && fs.readFileSync(file, 'utf-8') === '') {
+        return undefined;
+      }
+      fs.unlinkSync(file);
+    } catch {
+      // Removed by its owner in the meantime
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Take the sync lock, waiting up to `timeoutMs` for another sync to finish
+ */
+export async function waitForSyncLock(timeoutMs: number): Promise<(() => void) | undefined> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const release = acquireSyncLock();
+    if (release || Date.now() >= deadline) {
+      return release;
+    }
+    await sleep(LOCK_POLL_MS);
+  }
+}
+
+/**
+ * When the last sync finished, if known
+ */
+export function getLastSyncAt(): Date | undefined {
+  try {
+    const state = JSON.parse(fs.readFileSync(getStateFile(), 'utf-8'));
+    const lastSyncAt = new Date(state.lastSyncAt);
+    return isNaN(lastSyncAt.getTime()) ? undefined : lastSyncAt;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Record that a sync just finished. Only called while holding the lock.
+ */
+export function recordSyncFinished(): void {
+  ensureConfigDir();
+  writeFileAtomic(getStateFile(), JSON.stringify({ lastSyncAt: new Date().toISOString() }, null, 2));
+}
+
+/**
+ * Record a sync request, superseding earlier requests with the same key.
+ * Returns the request's ID.
+ */
+export function requestSync(key: string): string {
+  ensureConfigDir();
+  const file = getRequestFile(key);
+  if (!fs.existsSync(path.dirname(file))) {
+    fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  }
+  const id = `${Date.now()}-${randomBytes(4).toString('hex')}`;
+  writeFileAtomic(file, JSON.stringify({ id, key }));
+  return id;
+}
+
+function isLatestRequest(key: string, id: string): boolean {
+  try {
+    return JSON.parse(fs.readFileSync(getRequestFile(key), 'utf-8')).id === id;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wait until a requested sync may run: after the debounce period, once the
+ * minimum interval has passed and the lock is free. Returns the lock's release
+ * function, or undefined if a newer request with the same key took over.
+ * The request is consumed before returning, so requests made while this sync
+ * runs get a sync of their own afterwards.
+ */
+export async function waitForRequestedSync(key: string, id: string, throttle: SyncThrottle): Promise<(() => void) | undefined> {
+  await sleep(throttle.debounceMs);
+
+  for (;;) {
+    if (!isLatestRequest(key, id)) {
+      return undefined;
+    }
+
+    const lastSyncAt = getLastSyncAt();
+    const wait = lastSyncAt ? lastSyncAt.getTime() + throttle.minIntervalMs - Date.now() : 0;
+    if (wait > 0) {
+      await sleep(wait);
+      continue;
+    }
+
+    const release = acquireSyncLock();
+    if (!release) {
+      await sleep(LOCK_POLL_MS);
+      continue;
+    }
+
+    // Another request may have synced or superseded this one while we waited
+    const lastAfterLock = getLastSyncAt();
+    if (!isLatestRequest(key, id) ||
+        (lastAfterLock && lastAfterLock.getTime() + throttle.minIntervalMs > Date.now())) {
+      release();
+      continue;
+    }
+    try {
+      fs.unlinkSync(getRequestFile(key));
+    } catch {
+      // Already consumed
+    }
+    return release;
+  }
+}
+
+/**
+ * Remove the sync state and pending requests. The lock is left to its holder.
+ */
+export function clearSyncState(): void {
+  const dir = getConfigDir();
+  if (fs.existsSync(getStateFile())) {
+    fs.unlinkSync(getStateFile());
+  }
+  fs.rmSync(path.join(dir, REQUESTS_DIRNAME), { recursive: true, force: true });
+}
@@ -0,0 +1,148 @@
+/**
+ * Command output and exit codes
+ * With the global --json flag every command prints exactly one JSON object
+ * on stdout: { ok: true, command, ...result } on success, or
+ * { ok: false, command, error: { code, message } } on failure. The text
+ * output and spinners are muted while JSON mode is on.
+ */
+
+import chalk from 'chalk';
+import { SyncError } from './api';
+
+/**
+ * Stable error codes reported in JSON output
+ */
+export type ErrorCode =
+  | 'UNKNOWN'
+  | 'INVALID_ARGUMENT'
+  | 'INVALID_CONFIG'
+  | 'INVALID_DATA'
+  | 'NOT_FOUND'
+  | 'NOT_AUTHENTICATED'
+  | 'AUTH_REJECTED'
+  | 'NETWORK_ERROR'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'API_ERROR'
+  | 'CCUSAGE_UNAVAILABLE'
+  | 'SYNC_LOCKED'
+  | 'PARTIAL_FAILURE'
+  | 'CHECK_FAILED';
+
+/**
+ * Process exit codes, shared by the text and JSON modes
+ */
+export const EXIT_CODES = {
+  OK: 0,
+  FAILURE: 1, // Anything not covered below
+  USAGE: 2, // Invalid arguments, config values or input data
+  AUTH: 3, // Not signed in, or the API key was rejected
+  NETWORK: 4, // The server could not be reached
+  SERVER: 5, // The server failed or refused the request
+  CCUSAGE: 6, // ccusage could not be run
+  LOCKED: 7, // Another sync is still running
+} as const;
+
+const ERROR_EXIT_CODES: Record<ErrorCode, number> = {
+  UNKNOWN: EXIT_CODES.FAILURE,
+  NOT_FOUND: EXIT_CODES.FAILURE,
+  PARTIAL_FAILURE: EXIT_CODES.FAILURE,
+  CHECK_FAILED: EXIT_CODES.FAILURE,
+  INVALID_ARGUMENT: EXIT_CODES.USAGE,
+  INVALID_CONFIG: EXIT_CODES.USAGE,
+  INVALID_DATA: EXIT_CODES.USAGE,
+  NOT_AUTHENTICATED: EXIT_CODES.AUTH,
+  AUTH_REJECTED: EXIT_CODES.AUTH,
+  NETWORK_ERROR: EXIT_CODES.NETWORK,
+  RATE_LIMITED: EXIT_CODES.SERVER,
+  SERVER_ERROR: EXIT_CODES.SERVER,
+  API_ERROR: EXIT_CODES.SERVER,
+  CCUSAGE_UNAVAILABLE: EXIT_CODES.CCUSAGE,
+  SYNC_LOCKED: EXIT_CODES.LOCKED,
+};
+
+/**
+ * Error with a stable code for scripts
+ */
+export class CliError extends Error {
+  constructor(message: string, public readonly code: ErrorCode) {
+    super(message);
+    this.name = 'CliError';
+  }
+
+  get exitCode(): number {
+    return ERROR_EXIT_CODES[this.code];
+  }
+}
+
+/**
+ * Classify any thrown value
+ */
+export function toCliError(error: unknown): CliError {
+  if (error instanceof CliError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof SyncError) {
+    if (error.status === undefined) return new CliError(message, 'NETWORK_ERROR');
+    if (error.status === 401 || error.status === 403) return new CliError(message, 'AUTH_REJECTED');
+    if (error.status === 429) return new CliError(message, 'RATE_LIMITED');
+    if (error.status >= 500) return new CliError(message, 'SERVER_ERROR');
+    return new CliError(message, 'API_ERROR');
+  }
+  return new CliError(message, 'UNKNOWN');
+}
+
+let jsonMode = false;
+const writeStdout = (text: string) => process.stdout.write(text);
+
+/**
+ * Switch to JSON output, muting console output for the rest of the run
+ */
+export function setJsonMode(enabled: boolean): void {
+  jsonMode = enabled;
+  if (enabled) {
+    const mute = () => {};
+    console.log = mute;
+    console.info = mute;
+    console.warn = mute;
+    console.error = mute;
+  }
+}
+
+export function isJsonMode(): boolean {
+  return jsonMode;
+}
+
+/**
+ * Print the command's result object (JSON mode only)
+ */
+export function emitResult(command: string, result: Record<string, unknown> = {}): void {
+  if (jsonMode) {
+    writeStdout(`${JSON.stringify({ ok: true, command, ...result }, null, 2)}\n`);
+  }
+}
+
+/**
+ * Report a failure and exit with its exit code.
+ * Quiet (hook) runs still exit 0 so Claude Code never reports a failing hook.
+ * `result` carries partial results into the JSON error object.
+ */
+export function fail(
+  command: string,
+  error: unknown,
+  options: { quiet?: boolean; result?: Record<string, unknown>; printed?: boolean } = {}
+): never {
+  const cliError = toCliError(error);
+  if (jsonMode) {
+    writeStdout(`${JSON.stringify({
+      ok: false,
+      command,
+      ...options.result,
+      error: { code: cliError.code, message: cliError.message },
+    }, null, 2)}\n`);
+  } else if (!options.quiet && !options.printed) {
+    console.error(chalk.red(`\nError: ${cliError.message}\n`));
+  }
+  process.exit(options.quiet ? EXIT_CODES.OK : cliError.exitCode);
+}
@@ -0,0 +1,73 @@
+/**
+ * Bundled model pricing table for the native transcript reader
+ * Prices are USD per million tokens, matching Anthropic's published rates.
+ */
+
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheCreation: number;
+  cacheRead: number;
+}
+
+const OPUS_4_PRICING: ModelPricing = { input: 15, output: 75, cacheCreation: 18.75, cacheRead: 1.5 };
+
+// Opus 4 and 4.1 kept the legacy Opus rates; they are listed by exact name
+// so later Opus 4.x versions fall through to the current rates below
+const EXACT_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4': OPUS_4_PRICING,
+  'claude-opus-4-0': OPUS_4_PRICING,
+  'claude-opus-4-20250514': OPUS_4_PRICING,
+  'claude-opus-4-1': OPUS_4_PRICING,
+  'claude-opus-4-1-20250805': OPUS_4_PRICING,
+};
+
+// Ordered by specificity: the first matching prefix wins
+const PRICING_TABLE: Array<{ prefix: string; pricing: ModelPricing }> = [
+  { prefix: 'claude-opus-4', pricing: { input: 5, output: 25, cacheCreation: 6.25, cacheRead: 0.5 } },
+  { prefix: 'claude-sonnet-4', pricing: { input: 3, output: 15, cacheCreation: 3.75, cacheRead: 0.3 } },
+  { prefix: 'claude-haiku-4-5', pricing: { input: 1, output: 5, cacheCreation: 1.25, cacheRead: 0.1 } },
+  { prefix: 'claude-3-7-sonnet', pricing: { input: 3, output: 15, cacheCreation: 3.75, cacheRead: 0.3 } },
+  { prefix: 'claude-3-5-sonnet', pricing: { input: 3, output: 15, cacheCreation: 3.75, cacheRead: 0.3 } },
+  { prefix: 'claude-3-5-haiku', pricing: { input: 0.8, output: 4, cacheCreation: 1, cacheRead: 0.08 } },
+  { prefix: 'claude-3-opus', pricing: { input: 15, output: 75, cacheCreation: 18.75, cacheRead: 1.5 } },
+  { prefix: 'claude-3-haiku', pricing: { input: 0.25, output: 1.25, cacheCreation: 0.3, cacheRead: 0.03 } },
+];
+
+/**
+ * Look up pricing for a model name (e.g. "claude-sonnet-4-5-20250929")
+ */
+export function getModelPricing(modelName: string): ModelPricing | null {
+  // Bedrock/Vertex style names carry a provider prefix ("anthropic.claude-..."),
+  // a version suffix ("-v1:0") or an "@" before the date
+  const name = modelName
+    .toLowerCase()
+    .replace(/^.*?(claude-)/, '$1')
+    .replace(/-v\d+(:\d+)?$/, '')
+    .replace('@', '-');
+  if (EXACT_PRICING[name]) {
+    return EXACT_PRICING[name];
+  }
+  const match = PRICING_TABLE.find(entry => name.startsWith(entry.prefix));
+  return match ? match.pricing : null;
+}
+
+/**
+ * Calculate the cost of a single request from its token usage
+ * Returns 0 for models missing from the pricing table.
+ */
+export function calculateCost(
+  modelName: string,
+  tokens: { inputTokens: number; outputTokens: number; cacheCreationTokens: number; cacheReadTokens: number }
+): number {
+  const pricing = getModelPricing(modelName);
+  if (!pricing) {
+    return 0;
+  }
+  return (
+    tokens.inputTokens * pricing.input +
+    tokens.outputTokens * pricing.output +
+    tokens.cacheCreationTokens * pricing.cacheCreation +
+    tokens.cacheReadTokens * pricing.cacheRead
+  ) / 1_000_000;
+}
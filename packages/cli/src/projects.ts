@@ -0,0 +1,144 @@
+/**
+ * Per-project attribution
+ * Labels each day's project breakdown before upload. Paths never leave the
+ * machine: a project is uploaded under its alias, or under a hash with a secret salt when
+ * hashing is enabled, and only if it is on the allowlist. Everything else is
+ * summed into "other".
+ */
+
+import * as os from 'os';
+import { createHash } from 'crypto';
+import { CCUsageOutput, Config, LeaderboardEntry, LeaderboardProjectBreakdown, ProjectSharing } from './types';
+
+export const OTHER_PROJECT = 'other';
+
+// Labels the server accepts; also keeps anything path-like from being uploaded
+export const PROJECT_LABEL_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+export interface ProjectSettings {
+  sharing: ProjectSharing;
+  aliases: Array<{ path: string; alias: string }>;
+  allowlist: string[];
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function expandHome(value: string): string {
+  return value === '~' || value.startsWith('~/') ? os.homedir() + value.slice(1) : value;
+}
+
+/**
+ * Encode a path the way Claude Code names its project directories, so real
+ * working directories and ccusage's encoded names compare equal.
+ * `*` is kept for glob patterns.
+ */
+function encodeProjectPath(value: string): string {
+  return expandHome(value).replace(/[\\/]+$/, '').replace(/[^A-Za-z0-9*]/g, '-');
+}
+
+function matchesPath(projectPath: string, pattern: string): boolean {
+  const regex = new RegExp(`^${encodeProjectPath(pattern).split('*').join('.*')}$`);
+  return regex.test(encodeProjectPath(projectPath));
+}
+
+/**
+ * Validate a projectAliases config value
+ */
+export function validateProjectAliases(value: string): string | undefined {
+  for (const pair of splitList(value)) {
+    const [path, alias] = pair.split('=').map(part => part?.trim());
+    if (!path || !alias) {
+      return `Expected path=alias, got: ${pair}`;
+    }
+    if (!PROJECT_LABEL_PATTERN.test(alias) || alias === OTHER_PROJECT) {
+      return `Invalid alias "${alias}": use 1-64 letters, digits, '.', '-' or '_' (and not "${OTHER_PROJECT}")`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the project sharing settings from a profile's config
+ */
+export function getProjectSettings(config?: Config | null): ProjectSettings {
+  return {
+    sharing: config?.shareProjects || 'off',
+    aliases: config?.projectAliases && !validateProjectAliases(config.projectAliases)
+      ? splitList(config.projectAliases).map(pair => {
+        const [path, alias] = pair.split('=').map(part => part.trim());
+        return { path, alias };
+      })
+      : [],
+    allowlist: splitList(config?.projectAllowlist),
+  };
+}
+
+/**
+ * Upload label for a project, or undefined if it is only counted in "other".
+ * Hashes are salted with the profile's secret salt (see getProjectSalt), so
+ * they can't be matched across users or recomputed from guessed names.
+ */
+export function labelProject(projectPath: string, settings: ProjectSettings, salt: string): string | undefined {
+  if (settings.allowlist.length > 0 && !settings.allowlist.some(pattern => matchesPath(projectPath, pattern))) {
+    return undefined;
+  }
+  const alias = settings.aliases.find(entry => matchesPath(projectPath, entry.path));
+  if (alias) {
+    return alias.alias;
+  }
+  if (settings.sharing === 'hashed') {
+    const hash = createHash('sha256').update(`${salt}:${encodeProjectPath(projectPath)}`).digest('hex');
+    return `p-${hash.slice(0, 12)}`;
+  }
+  return undefined;
+}
+
+/**
+ * Attach labelled project breakdowns to leaderboard entries.
+ * Days without project data (e.g. a plain ccusage daily report) get none.
+ */
+export function attachProjectBreakdowns(
+  entries: LeaderboardEntry[],
+  data: CCUsageOutput,
+  settings: ProjectSettings,
+  salt: string
+): LeaderboardEntry[] {
+  if (settings.sharing === 'off') {
+    return entries;
+  }
+
+  const projectsByDate = new Map(data.daily.map(day => [day.date, day.projects]));
+  return entries.map(entry => {
+    const projects = projectsByDate.get(entry.date);
+    if (!projects || projects.length === 0) {
+      return entry;
+    }
+
+    const byLabel = new Map<string, LeaderboardProjectBreakdown>();
+    for (const project of projects) {
+      const label = labelProject(project.projectPath, settings, salt) || OTHER_PROJECT;
+      const existing = byLabel.get(label);
+      if (existing) {
+        existing.inputTokens += project.inputTokens;
+        existing.outputTokens += project.outputTokens;
+        existing.cacheCreationTokens += project.cacheCreationTokens;
+        existing.cacheReadTokens += project.cacheReadTokens;
+        existing.cost = (existing.cost || 0) + project.cost;
+      } else {
+        byLabel.set(label, {
+          project: label,
+          inputTokens: project.inputTokens,
+          outputTokens: project.outputTokens,
+          cacheCreationTokens: project.cacheCreationTokens,
+          cacheReadTokens: project.cacheReadTokens,
+          cost: project.cost,
+        });
+      }
+    }
+
+    const projectBreakdowns = Array.from(byLabel.values()).sort((a, b) => (b.cost || 0) - (a.cost || 0));
+    return { ...entry, projectBreakdowns };
+  });
+}
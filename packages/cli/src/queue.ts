@@ -0,0 +1,253 @@
+/**
+ * Durable outbox for failed uploads
+ * Each failed payload (daily entries or a single session) is stored as
+ * <config dir>/outbox/<id>.json and retried with exponential backoff on later runs.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { getConfigDir, ensureConfigDir, getActiveProfile, DEFAULT_PROFILE } from './config';
+import { readLedger, writeLedger, recordUploaded } from './ledger';
+import { syncToLeaderboard, uploadSession, SyncError } from './api';
+import { LeaderboardEntry, QueueItem, SessionRecord } from './types';
+
+const OUTBOX_DIRNAME = 'outbox';
+
+// Backoff: 1 minute doubling per attempt, capped at 6 hours
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+function getOutboxDir(): string {
+  return path.join(getConfigDir(), OUTBOX_DIRNAME);
+}
+
+function getItemFile(id: string): string {
+  return path.join(getOutboxDir(), `${id}.json`);
+}
+
+function writeQueueItem(item: QueueItem): void {
+  ensureConfigDir();
+  const dir = getOutboxDir();
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+  fs.writeFileSync(getItemFile(item.id), JSON.stringify(item, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Delay before the next retry after the given number of failed attempts
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * List queued uploads, oldest first
+ */
+export function listQueue(): QueueItem[] {
+  const dir = getOutboxDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const items: QueueItem[] = [];
+  for (const name of fs.readdirSync(dir)) {
+    if (!name.endsWith('.json')) continue;
+    try {
+      items.push(JSON.parse(fs.readFileSync(path.join(dir, name), 'utf-8')));
+    } catch {
+      // Skip unreadable items rather than blocking the whole queue
+    }
+  }
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Store a failed upload for later retry
+ */
+export function enqueue(params: {
+  apiEndpoint: string;
+  username: string;
+  deviceId: string;
+  ledgerTarget: string;
+  partial: boolean;
+  timeZone?: string;
+  entries: LeaderboardEntry[];
+  error: string;
+}): QueueItem {
+  const now = Date.now();
+  const item: QueueItem = {
+    id: `${now}-${randomBytes(3).toString('hex')}`,
+    createdAt: new Date(now).toISOString(),
+    attempts: 1,
+    nextAttemptAt: new Date(now + getRetryDelay(1)).toISOString(),
+    lastError: params.error,
+    apiEndpoint: params.apiEndpoint,
+    username: params.username,
+    deviceId: params.deviceId,
+    ledgerTarget: params.ledgerTarget,
+    partial: params.partial,
+    timeZone: params.timeZone,
+    profile: getActiveProfile(),
+    entries: params.entries,
+  };
+  writeQueueItem(item);
+  return item;
+}
+
+/**
+ * Store a failed session upload for later retry.
+ * Sessions are upserted by ID on the server, so a retry never double-counts.
+ */
+export function enqueueSession(params: {
+  apiEndpoint: string;
+  username: string;
+  deviceId: string;
+  session: SessionRecord;
+  error: string;
+}): QueueItem {
+  const now = Date.now();
+  const item: QueueItem = {
+    id: `${now}-${randomBytes(3).toString('hex')}`,
+    createdAt: new Date(now).toISOString(),
+    attempts: 1,
+    nextAttemptAt: new Date(now + getRetryDelay(1)).toISOString(),
+    lastError: params.error,
+    apiEndpoint: params.apiEndpoint,
+    username: params.username,
+    deviceId: params.deviceId,
+    ledgerTarget: '',
+    partial: true,
+    profile: getActiveProfile(),
+    entries: [],
+    session: params.session,
+  };
+  writeQueueItem(item);
+  return item;
+}
+
+/**
+ * Remove a queued upload. Returns false if no such item exists.
+ */
+export function removeQueueItem(id: string): boolean {
+  const file = getItemFile(path.basename(id));
+  if (!fs.existsSync(file)) {
+    return false;
+  }
+  fs.unlinkSync(file);
+  return true;
+}
+
+/**
+ * Remove every queued upload, returning how many were dropped
+ */
+export function clearQueue(): number {
+  const items = listQueue();
+  items.forEach(item => removeQueueItem(item.id));
+  return items.length;
+}
+
+/**
+ * Drop queued uploads that a newer upload to the same target makes obsolete.
+ * A full replace supersedes everything; a partial upload supersedes the
+ * queued days it covers.
+ */
+export function dropSupersededItems(ledgerTarget: string, dates: string[], partial: boolean): number {
+  const covered = new Set(dates);
+  let dropped = 0;
+
+  for (const item of listQueue()) {
+    if (item.session || item.ledgerTarget !== ledgerTarget) continue;
+
+    const remaining = partial ? item.entries.filter(entry => !covered.has(entry.date)) : [];
+    if (remaining.length === 0) {
+      removeQueueItem(item.id);
+      dropped++;
+    } else if (remaining.length < item.entries.length) {
+      // Once trimmed, replaying the item must not wipe the newer days
+      writeQueueItem({ ...item, entries: remaining, partial: true });
+    }
+  }
+
+  return dropped;
+}
+
+/**
+ * Retry the active profile's queued uploads, oldest first.
+ * Items still in backoff are skipped unless `force` is set or their id is listed.
+ * The API key is read from config at retry time and never stored in the outbox.
+ */
+export async function flushQueue(apiKey: string, options: { force?: boolean; ids?: string[] } = {}): Promise<{
+  sent: number;
+  failed: number;
+  skipped: number;
+  errors: string[];
+}> {
+  const result = { sent: 0, failed: 0, skipped: 0, errors: [] as string[] };
+  const now = Date.now();
+  const profile = getActiveProfile();
+
+  for (const item of listQueue()) {
+    if (options.ids && !options.ids.includes(item.id)) continue;
+    // Another profile's key must deliver its uploads
+    const itemProfile = item.profile || DEFAULT_PROFILE;
+    if (itemProfile !== profile) {
+      if (options.ids) {
+        result.failed++;
+        result.errors.push(`${item.id}: belongs to profile ${itemProfile}; retry with --profile ${itemProfile}`);
+      }
+      continue;
+    }
+    if (!options.force && !options.ids && new Date(item.nextAttemptAt).getTime() > now) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      if (item.session) {
+        // Sessions go to the web app's origin and have no ledger
+        await uploadSession(item.session, apiKey, new URL(item.apiEndpoint).origin, { deviceId: item.deviceId });
+        removeQueueItem(item.id);
+        result.sent++;
+        continue;
+      }
+
+      await syncToLeaderboard(item.entries, apiKey, item.apiEndpoint, {
+        username: item.username,
+        deviceId: item.deviceId,
+        partial: item.partial,
+        timeZone: item.timeZone,
+      });
+      removeQueueItem(item.id);
+
+      // A full replace resets the ledger; a partial one only extends an existing ledger
+      const ledger = readLedger(item.ledgerTarget);
+      if (!item.partial) {
+        writeLedger(recordUploaded({ target: item.ledgerTarget, days: {} }, item.entries));
+      } else if (Object.keys(ledger.days).length > 0) {
+        writeLedger(recordUploaded(ledger, item.entries));
+      }
+      result.sent++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.failed++;
+      result.errors.push(`${item.id}: ${message}`);
+
+      if (error instanceof SyncError && !error.retryable) {
+        // Leave permanently failing items in place for `ccrank queue drop`, but stop hammering the server
+        writeQueueItem({ ...item, attempts: item.attempts + 1, lastError: message, nextAttemptAt: new Date(now + MAX_RETRY_DELAY_MS).toISOString() });
+      } else {
+        const attempts = item.attempts + 1;
+        writeQueueItem({ ...item, attempts, lastError: message, nextAttemptAt: new Date(now + getRetryDelay(attempts)).toISOString() });
+      }
+
+      // Server unreachable: the remaining items would only time out as well
+      if (error instanceof SyncError && error.status === undefined) {
+        break;
+      }
+    }
+  }
+
+  return result;
+}
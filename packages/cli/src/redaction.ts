@@ -0,0 +1,227 @@
+/**
+ * Privacy redaction
+ * Applies the profile's privacy settings to leaderboard entries between
+ * transformToLeaderboardEntries and upload, so withheld data never leaves
+ * the machine.
+ */
+
+import { Config, CostRedaction, LeaderboardEntry, LeaderboardModelBreakdown, SessionRecord } from './types';
+
+export interface PrivacySettings {
+  cost: CostRedaction;
+  tokenBucket: number; // 0 = exact counts
+  excludeModels: string[];
+  excludeDates: Array<{ from: string; to: string }>;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Whether a value is a real YYYY-MM-DD date
+ */
+export function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value);
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a date or YYYY-MM-DD..YYYY-MM-DD range, or undefined if invalid
+ */
+function parseDateRange(value: string): { from: string; to: string } | undefined {
+  const [from, to = from] = value.split('..');
+  if (!isValidDate(from) || !isValidDate(to) || from > to) {
+    return undefined;
+  }
+  return { from, to };
+}
+
+/**
+ * Validate a tokenBucket config value
+ */
+export function validateTokenBucket(value: string): string | undefined {
+  return /^\d+$/.test(value) && Number(value) <= 1_000_000_000 ? undefined : 'Token bucket must be a whole number (0 for exact counts)';
+}
+
+/**
+ * Validate an excludeDates config value
+ */
+export function validateExcludeDates(value: string): string | undefined {
+  const invalid = splitList(value).find(item => !parseDateRange(item));
+  return invalid ? `Not a date or YYYY-MM-DD..YYYY-MM-DD range: ${invalid}` : undefined;
+}
+
+/**
+ * Read the privacy settings from a profile's config
+ */
+export function getPrivacySettings(config?: Config | null): PrivacySettings {
+  return {
+    cost: config?.redactCost || 'none',
+    tokenBucket: config?.tokenBucket && !validateTokenBucket(config.tokenBucket) ? Number(config.tokenBucket) : 0,
+    excludeModels: splitList(config?.excludeModels),
+    excludeDates: splitList(config?.excludeDates)
+      .map(parseDateRange)
+      .filter((range): range is { from: string; to: string } => range !== undefined),
+  };
+}
+
+/**
+ * Whether any redaction is configured
+ */
+export function hasRedaction(settings: PrivacySettings): boolean {
+  return settings.cost !== 'none' || settings.tokenBucket > 0 ||
+    settings.excludeModels.length > 0 || settings.excludeDates.length > 0;
+}
+
+/**
+ * Describe the active redactions for sync output
+ */
+export function describeRedaction(settings: PrivacySettings): string[] {
+  const lines: string[] = [];
+  if (settings.cost === 'round') lines.push('costs rounded to whole dollars');
+  if (settings.cost === 'drop') lines.push('costs withheld');
+  if (settings.tokenBucket > 0) lines.push(`token counts rounded to ${settings.tokenBucket.toLocaleString()}`);
+  if (settings.excludeModels.length > 0) lines.push(`models excluded: ${settings.excludeModels.join(', ')}`);
+  if (settings.excludeDates.length > 0) {
+    lines.push(`dates excluded: ${settings.excludeDates.map(range => range.from === range.to ? range.from : `${range.from}..${range.to}`).join(', ')}`);
+  }
+  return lines;
+}
+
+/**
+ * Match a model name against patterns where `*` matches any run of characters
+ */
+function matchesModel(modelName: string, patterns: string[]): boolean {
+  return patterns.some(pattern => {
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+    return regex.test(modelName);
+  });
+}
+
+function bucket(value: number, size: number): number {
+  return size > 0 ? Math.round(value / size) * size : value;
+}
+
+function redactCost(cost: number | undefined, mode: CostRedaction): number | undefined {
+  if (cost === undefined || mode === 'drop') return undefined;
+  return mode === 'round' ? Math.round(cost) : cost;
+}
+
+/**
+ * Apply privacy settings to leaderboard entries.
+ * Excluded dates are dropped, as are days that only used excluded models.
+ * Excluded models' tokens and cost are subtracted from the day totals when
+ * the day has a per-model breakdown; otherwise only the name is removed.
+ * Project breakdowns aren't split by model, so they are dropped from days
+ * where an excluded model was subtracted.
+ */
+export function redactEntries(entries: LeaderboardEntry[], settings: PrivacySettings): LeaderboardEntry[] {
+  if (!hasRedaction(settings)) {
+    return entries;
+  }
+
+  const redacted: LeaderboardEntry[] = [];
+  for (const entry of entries) {
+    if (settings.excludeDates.some(range => entry.date >= range.from && entry.date <= range.to)) {
+      continue;
+    }
+
+    const day = { ...entry };
+    let breakdowns: LeaderboardModelBreakdown[] = entry.modelBreakdowns;
+
+    if (settings.excludeModels.length > 0) {
+      const excluded = breakdowns.filter(model => matchesModel(model.modelName, settings.excludeModels));
+      breakdowns = breakdowns.filter(model => !excluded.includes(model));
+      day.modelsUsed = entry.modelsUsed.filter(model => !matchesModel(model, settings.excludeModels));
+      if (entry.modelsUsed.length > 0 && day.modelsUsed.length === 0) {
+        continue;
+      }
+      for (const model of excluded) {
+        day.inputTokens = Math.max(day.inputTokens - model.inputTokens, 0);
+        day.outputTokens = Math.max(day.outputTokens - model.outputTokens, 0);
+        day.cacheCreationTokens = Math.max(day.cacheCreationTokens - model.cacheCreationTokens, 0);
+        day.cacheReadTokens = Math.max(day.cacheReadTokens - model.cacheReadTokens, 0);
+        day.totalCost = day.totalCost === undefined ? undefined : Math.max(day.totalCost - (model.cost || 0), 0);
+      }
+      if (excluded.length > 0) {
+        day.totalTokens = day.inputTokens + day.outputTokens + day.cacheCreationTokens + day.cacheReadTokens;
+        delete day.projectBreakdowns;
+      }
+    }
+
+    if (settings.tokenBucket > 0) {
+      day.inputTokens = bucket(day.inputTokens, settings.tokenBucket);
+      day.outputTokens = bucket(day.outputTokens, settings.tokenBucket);
+      day.cacheCreationTokens = bucket(day.cacheCreationTokens, settings.tokenBucket);
+      day.cacheReadTokens = bucket(day.cacheReadTokens, settings.tokenBucket);
+      // Sum the buckets so the total stays consistent with its parts
+      day.totalTokens = day.inputTokens + day.outputTokens + day.cacheCreationTokens + day.cacheReadTokens;
+    }
+
+    // Undefined costs are left out of the JSON payload
+    day.modelBreakdowns = breakdowns.map(model => ({
+      ...model,
+      inputTokens: bucket(model.inputTokens, settings.tokenBucket),
+      outputTokens: bucket(model.outputTokens, settings.tokenBucket),
+      cacheCreationTokens: bucket(model.cacheCreationTokens, settings.tokenBucket),
+      cacheReadTokens: bucket(model.cacheReadTokens, settings.tokenBucket),
+      cost: redactCost(model.cost, settings.cost),
+    }));
+    if (day.projectBreakdowns) {
+      day.projectBreakdowns = day.projectBreakdowns.map(project => ({
+        ...project,
+        inputTokens: bucket(project.inputTokens, settings.tokenBucket),
+        outputTokens: bucket(project.outputTokens, settings.tokenBucket),
+        cacheCreationTokens: bucket(project.cacheCreationTokens, settings.tokenBucket),
+        cacheReadTokens: bucket(project.cacheReadTokens, settings.tokenBucket),
+        cost: redactCost(project.cost, settings.cost),
+      }));
+    }
+    day.totalCost = redactCost(day.totalCost, settings.cost);
+    redacted.push(day);
+  }
+
+  return redacted;
+}
+
+/**
+ * Apply privacy settings to a session record, the same way as to a day.
+ * Returns undefined when the session must not be uploaded.
+ */
+export function redactSession(
+  session: SessionRecord,
+  modelBreakdowns: LeaderboardModelBreakdown[],
+  settings: PrivacySettings
+): SessionRecord | undefined {
+  const [day] = redactEntries([{
+    username: '',
+    date: session.date,
+    utcDate: session.utcDate,
+    timezoneOffset: 0,
+    totalTokens: session.totalTokens,
+    totalCost: session.cost,
+    inputTokens: session.inputTokens,
+    outputTokens: session.outputTokens,
+    cacheCreationTokens: session.cacheCreationTokens,
+    cacheReadTokens: session.cacheReadTokens,
+    modelsUsed: session.modelsUsed,
+    modelBreakdowns,
+    timestamp: session.endedAt,
+  }], settings);
+
+  if (!day) {
+    return undefined;
+  }
+  return {
+    ...session,
+    inputTokens: day.inputTokens,
+    outputTokens: day.outputTokens,
+    cacheCreationTokens: day.cacheCreationTokens,
+    cacheReadTokens: day.cacheReadTokens,
+    totalTokens: day.totalTokens,
+    cost: day.totalCost,
+    modelsUsed: day.modelsUsed,
+  };
+}
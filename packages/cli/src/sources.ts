@@ -0,0 +1,106 @@
+/**
+ * Usage data sources
+ * Loads a ccusage-style report either by running ccusage or by reading
+ * Claude Code transcripts natively.
+ */
+
+import { execSync } from 'child_process';
+import { readNativeUsage } from './transcripts';
+import { CliError } from './output';
+import { CCUsageOutput, Config, DataSource } from './types';
+
+export const DATA_SOURCES: DataSource[] = ['ccusage', 'native'];
+
+/**
+ * Try to run ccusage command with given method
+ */
+function tryRunCCUsage(period: string, command: string): CCUsageOutput {
+  try {
+    const output = execSync(`${command} ${period} --json`, {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+      maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+    });
+    return JSON.parse(output);
+  } catch (error: any) {
+    // Re-throw with stderr attached for better error handling
+    if (error.stderr) {
+      error.stderr = error.stderr.toString();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run ccusage command and get JSON output
+ * Tries local install first, then falls back to npx
+ */
+export function runCCUsage(period: string = 'daily'): CCUsageOutput {
+  const errors: string[] = [];
+
+  // Try 1: Check if ccusage is available globally/locally
+  try {
+    return tryRunCCUsage(period, 'ccusage');
+  } catch (error: any) {
+    // Check for command not found (ENOENT or stderr containing 'not found')
+    const stderr = error.stderr || '';
+    if (error.code === 'ENOENT' || stderr.includes('not found') || stderr.includes('No such')) {
+      errors.push('Local ccusage not found');
+    } else {
+      throw new CliError(`Failed to run ccusage: ${error.message}`, 'CCUSAGE_UNAVAILABLE');
+    }
+  }
+
+  // Try 2: Use npx to run without installation
+  try {
+    return tryRunCCUsage(period, 'npx ccusage@latest');
+  } catch (error: any) {
+    errors.push(`npx fallback failed: ${error.message}`);
+  }
+
+  // Try 3: Use pnpm dlx as another fallback
+  try {
+    return tryRunCCUsage(period, 'pnpm dlx ccusage@latest');
+  } catch (error: any) {
+    errors.push(`pnpm fallback failed: ${error.message}`);
+  }
+
+  // All methods failed
+  throw new CliError(
+    `ccusage could not be executed.\n\n` +
+    `Attempts made:\n` +
+    errors.map(e => `  - ${e}`).join('\n') +
+    `\n\nTo fix this, you can:\n` +
+    `  1. Install ccusage globally: npm install -g ccusage\n` +
+    `  2. Or ensure npx is available (comes with Node.js)\n` +
+    `  3. Or pipe data manually: ccusage --json | ccrank sync --stdin`,
+    'CCUSAGE_UNAVAILABLE'
+  );
+}
+
+/**
+ * Resolve the data source: --source flag > config > ccusage
+ */
+export function resolveDataSource(flag: string | undefined, config: Config | null): DataSource {
+  const source = flag || config?.source || 'ccusage';
+  if (!DATA_SOURCES.includes(source as DataSource)) {
+    throw new CliError(`Unknown data source: ${source}. Expected one of: ${DATA_SOURCES.join(', ')}`, 'INVALID_ARGUMENT');
+  }
+  return source as DataSource;
+}
+
+/**
+ * Load usage data from the given source.
+ * With `projects`, ccusage is asked for its per-project report
+ * (`daily --instances`); the native reader always records projects and
+ * dates usage in `timeZone` (ccusage always uses the system zone).
+ */
+export async function loadUsageData(source: DataSource, period: string = 'daily', options: { projects?: boolean; timeZone?: string } = {}): Promise<CCUsageOutput> {
+  if (source === 'native') {
+    if (period !== 'daily') {
+      throw new CliError(`The native source only produces daily reports (got --period ${period}). Use --source ccusage instead.`, 'INVALID_ARGUMENT');
+    }
+    return readNativeUsage(options.timeZone);
+  }
+  return runCCUsage(options.projects && period === 'daily' ? 'daily --instances' : period);
+}
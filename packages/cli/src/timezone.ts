@@ -0,0 +1,98 @@
+/**
+ * Time zone helpers
+ * Converts local usage dates to UTC using the offset that applied on each
+ * date, so DST changes and travel don't shift historical days.
+ */
+
+import { Config } from './types';
+
+/**
+ * Whether a string is an IANA time zone name the runtime understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect the system's IANA time zone
+ */
+export function getSystemTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Time zone for sync: the configured zone, or the system zone
+ */
+export function getTimeZone(config?: Config | null): string {
+  if (config?.timeZone && isValidTimeZone(config.timeZone)) {
+    return config.timeZone;
+  }
+  return getSystemTimeZone();
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in minutes ahead of UTC
+ * (e.g. -480 for PST, +60 for CET)
+ */
+function getOffsetAt(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return Math.round((asUtc - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+/**
+ * Offset that applied at local noon on a date (YYYY-MM-DD), in minutes ahead of UTC
+ */
+export function getTimeZoneOffset(localDate: string, timeZone: string): number {
+  const [year, month, day] = localDate.split('-').map(Number);
+  const localNoon = Date.UTC(year, month - 1, day, 12, 0, 0);
+  // Refine once: the offset at the guessed instant settles DST transition days
+  const guess = getOffsetAt(timeZone, localNoon);
+  return getOffsetAt(timeZone, localNoon - guess * 60000);
+}
+
+/**
+ * Convert a local date (YYYY-MM-DD) to the UTC date of its local noon
+ */
+export function localDateToUtcDate(localDate: string, timeZone: string): string {
+  const [year, month, day] = localDate.split('-').map(Number);
+  const offset = getTimeZoneOffset(localDate, timeZone);
+  // Noon local time avoids DST edge cases
+  const utcNoon = new Date(Date.UTC(year, month - 1, day, 12, 0, 0) - offset * 60000);
+  return utcNoon.toISOString().split('T')[0];
+}
+
+// Formatters are costly to build and getLocalDate runs once per transcript record
+const dateFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Local date (YYYY-MM-DD) in a time zone at an instant, by default now
+ */
+export function getLocalDate(timeZone: string, instant: Date = new Date()): string {
+  let formatter = dateFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    dateFormatters.set(timeZone, formatter);
+  }
+  return formatter.format(instant);
+}
@@ -0,0 +1,297 @@
+/**
+ * Native reader for Claude Code JSONL transcripts
+ * Produces the same daily report shape as `ccusage daily --json` without
+ * shelling out, by reading the .jsonl files under ~/.claude/projects directly.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as readline from 'readline';
+import { calculateCost } from './pricing';
+import { getLocalDate } from './timezone';
+import { CCUsageOutput, DailyUsage, ModelBreakdown, ProjectUsage } from './types';
+
+// Placeholder model Claude Code writes for locally generated messages
+const SYNTHETIC_MODEL = '<synthetic>';
+
+export interface UsageRecord {
+  timestamp: Date;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  cost: number;
+  project?: string; // Working directory the session ran in
+}
+
+/**
+ * Get the Claude Code projects directories to scan.
+ * Honors CLAUDE_CONFIG_DIR (comma-separated), otherwise checks both the
+ * XDG location (~/.config/claude) and the legacy location (~/.claude).
+ */
+export function getClaudeProjectsDirs(): string[] {
+  const configured = process.env.CLAUDE_CONFIG_DIR;
+  const roots = configured
+    ? configured.split(',').map(dir => dir.trim()).filter(Boolean)
+    : [path.join(os.homedir(), '.config', 'claude'), path.join(os.homedir(), '.claude')];
+
+  return roots
+    .map(root => path.join(root, 'projects'))
+    .filter(dir => fs.existsSync(dir));
+}
+
+/**
+ * Recursively list all .jsonl files under a directory
+ */
+function findTranscriptFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...findTranscriptFiles(fullPath));
+    } else if (entry.isFile() && entry.name.endsWith('.jsonl')) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Format a date as YYYY-MM-DD in an IANA time zone, or the system's
+ */
+export function toLocalDate(date: Date, timeZone?: string): string {
+  if (timeZone) {
+    return getLocalDate(timeZone, date);
+  }
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse one transcript line into a usage record, or null if it carries no usage
+ */
+function parseTranscriptLine(line: string, seen: Set<string>, project?: string): UsageRecord | null {
+  let data: any;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    return null;
+  }
+
+  const message = data?.message;
+  const usage = message?.usage;
+  if (!usage || typeof data.timestamp !== 'string') {
+    return null;
+  }
+
+  const model: string = message.model || 'unknown';
+  if (model === SYNTHETIC_MODEL) {
+    return null;
+  }
+
+  // Resumed sessions replay earlier messages, so dedupe on message + request id
+  if (message.id && data.requestId) {
+    const key = `${message.id}:${data.requestId}`;
+    if (seen.has(key)) {
+      return null;
+    }
+    seen.add(key);
+  }
+
+  const timestamp = new Date(data.timestamp);
+  if (isNaN(timestamp.getTime())) {
+    return null;
+  }
+
+  const tokens = {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+    cacheReadTokens: usage.cache_read_input_tokens || 0,
+  };
+
+  return {
+    timestamp,
+    model,
+    ...tokens,
+    // Prefer the cost recorded by Claude Code when present
+    cost: typeof data.costUSD === 'number' ? data.costUSD : calculateCost(model, tokens),
+    project: typeof data.cwd === 'string' && data.cwd ? data.cwd : project,
+  };
+}
+
+/**
+ * Read all usage records from a single transcript file.
+ * `project` labels lines that don't record their working directory.
+ */
+export async function readTranscriptFile(file: string, seen: Set<string> = new Set(), project?: string): Promise<UsageRecord[]> {
+  const records: UsageRecord[] = [];
+  const lines = readline.createInterface({
+    input: fs.createReadStream(file, { encoding: 'utf-8' }),
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const record = parseTranscriptLine(line, seen, project);
+    if (record) {
+      records.push(record);
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Read a single session's transcript: its usage records and the time span
+ * covered by all of its entries (not only those with usage)
+ */
+export async function readSessionTranscript(file: string): Promise<{ records: UsageRecord[]; startedAt?: Date; endedAt?: Date }> {
+  const seen = new Set<string>();
+  const records: UsageRecord[] = [];
+  let startedAt: Date | undefined;
+  let endedAt: Date | undefined;
+
+  const lines = readline.createInterface({
+    input: fs.createReadStream(file, { encoding: 'utf-8' }),
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const record = parseTranscriptLine(line, seen);
+    if (record) {
+      records.push(record);
+    }
+
+    let timestamp: Date;
+    try {
+      timestamp = new Date(JSON.parse(line)?.timestamp);
+    } catch {
+      continue;
+    }
+    if (isNaN(timestamp.getTime())) continue;
+    if (!startedAt || timestamp < startedAt) startedAt = timestamp;
+    if (!endedAt || timestamp > endedAt) endedAt = timestamp;
+  }
+
+  return { records, startedAt, endedAt };
+}
+
+/**
+ * Aggregate usage records into ccusage-style daily entries,
+ * dated in `timeZone` (the system zone when unset)
+ */
+export function aggregateDaily(records: UsageRecord[], timeZone?: string): DailyUsage[] {
+  const days = new Map<string, Map<string, ModelBreakdown>>();
+  const projectDays = new Map<string, Map<string, ProjectUsage>>();
+
+  for (const record of records) {
+    const date = toLocalDate(record.timestamp, timeZone);
+    if (!days.has(date)) {
+      days.set(date, new Map());
+    }
+
+    if (record.project) {
+      if (!projectDays.has(date)) {
+        projectDays.set(date, new Map());
+      }
+      const projects = projectDays.get(date)!;
+      const project = projects.get(record.project);
+      if (project) {
+        project.inputTokens += record.inputTokens;
+        project.outputTokens += record.outputTokens;
+        project.cacheCreationTokens += record.cacheCreationTokens;
+        project.cacheReadTokens += record.cacheReadTokens;
+        project.cost += record.cost;
+      } else {
+        projects.set(record.project, {
+          projectPath: record.project,
+          inputTokens: record.inputTokens,
+          outputTokens: record.outputTokens,
+          cacheCreationTokens: record.cacheCreationTokens,
+          cacheReadTokens: record.cacheReadTokens,
+          cost: record.cost,
+        });
+      }
+    }
+
+    const models = days.get(date)!;
+    const existing = models.get(record.model);
+    if (existing) {
+      existing.inputTokens += record.inputTokens;
+      existing.outputTokens += record.outputTokens;
+      existing.cacheCreationTokens += record.cacheCreationTokens;
+      existing.cacheReadTokens += record.cacheReadTokens;
+      existing.cost += record.cost;
+    } else {
+      models.set(record.model, {
+        modelName: record.model,
+        inputTokens: record.inputTokens,
+        outputTokens: record.outputTokens,
+        cacheCreationTokens: record.cacheCreationTokens,
+        cacheReadTokens: record.cacheReadTokens,
+        cost: record.cost,
+      });
+    }
+  }
+
+  return Array.from(days.entries())
+    .map(([date, models]) => {
+      const modelBreakdowns = Array.from(models.values()).sort((a, b) => b.cost - a.cost);
+      const day: DailyUsage = {
+        date,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        totalTokens: 0,
+        totalCost: modelBreakdowns.reduce((sum, model) => sum + model.cost, 0),
+        modelsUsed: modelBreakdowns.map(model => model.modelName),
+        modelBreakdowns,
+      };
+      const projects = projectDays.get(date);
+      if (projects) {
+        day.projects = Array.from(projects.values()).sort((a, b) => b.cost - a.cost);
+      }
+      for (const model of modelBreakdowns) {
+        day.inputTokens += model.inputTokens;
+        day.outputTokens += model.outputTokens;
+        day.cacheCreationTokens += model.cacheCreationTokens;
+        day.cacheReadTokens += model.cacheReadTokens;
+      }
+      day.totalTokens = day.inputTokens + day.outputTokens + day.cacheCreationTokens + day.cacheReadTokens;
+      return day;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Build a daily usage report from the local Claude Code transcripts
+ */
+export async function readNativeUsage(timeZone?: string): Promise<CCUsageOutput> {
+  const dirs = getClaudeProjectsDirs();
+  if (dirs.length === 0) {
+    throw new Error(
+      'No Claude Code transcripts found.\n' +
+      'Looked in ~/.config/claude/projects and ~/.claude/projects (set CLAUDE_CONFIG_DIR to override).'
+    );
+  }
+
+  const seen = new Set<string>();
+  const records: UsageRecord[] = [];
+  for (const dir of dirs) {
+    for (const file of findTranscriptFiles(dir)) {
+      // Transcripts live in projects/<encoded project directory>/
+      const [first, ...rest] = path.relative(dir, file).split(path.sep);
+      const project = rest.length > 0 ? first : undefined;
+      records.push(...await readTranscriptFile(file, seen, project));
+    }
+  }
+
+  return { daily: aggregateDaily(records, timeZone) };
+}
@@ -2,35 +2,24 @@
  * Transform ccusage data into leaderboard entries
  */
 
-import { CCUsageOutput, LeaderboardEntry } from './types';
+import { CCUsageOutput, DailyUsage, LeaderboardEntry, ModelBreakdown, SessionRecord } from './types';
+import { getSystemTimeZone, getTimeZoneOffset, localDateToUtcDate } from './timezone';
+import { toLocalDate, UsageRecord } from './transcripts';
 
 /**
- * Convert a local date string (YYYY-MM-DD) to UTC date string
- * accounting for the current timezone offset.
- */
-function localDateToUtcDate(localDate: string): string {
-  // Parse the local date and add current time
-  const [year, month, day] = localDate.split('-').map(Number);
-  // Create date at noon local time to avoid DST edge cases
-  const localDateTime = new Date(year, month - 1, day, 12, 0, 0);
-  // Convert to UTC date string
-  return localDateTime.toISOString().split('T')[0];
-}
-
-/**
- * Transform ccusage daily data into leaderboard entries
+ * Transform ccusage daily data into leaderboard entries.
+ * Each date is converted with the offset `timeZone` had on that date.
  */
 export function transformToLeaderboardEntries(
   ccusageData: CCUsageOutput,
-  username: string
+  username: string,
+  timeZone: string = getSystemTimeZone()
 ): LeaderboardEntry[] {
-  const timezoneOffset = new Date().getTimezoneOffset(); // Minutes offset from UTC
-
   return ccusageData.daily.map(day => ({
     username,
     date: day.date, // Keep original local date for display
-    utcDate: localDateToUtcDate(day.date), // Add UTC date for accurate comparisons
-    timezoneOffset,
+    utcDate: localDateToUtcDate(day.date, timeZone), // Add UTC date for accurate comparisons
+    timezoneOffset: getTimeZoneOffset(day.date, timeZone),
     totalTokens: day.totalTokens,
     totalCost: day.totalCost,
     inputTokens: day.inputTokens,
@@ -38,10 +27,196 @@ export function transformToLeaderboardEntries(
     cacheCreationTokens: day.cacheCreationTokens,
     cacheReadTokens: day.cacheReadTokens,
     modelsUsed: day.modelsUsed,
+    modelBreakdowns: (day.modelBreakdowns || []).map(model => ({
+      modelName: model.modelName,
+      inputTokens: model.inputTokens,
+      outputTokens: model.outputTokens,
+      cacheCreationTokens: model.cacheCreationTokens,
+      cacheReadTokens: model.cacheReadTokens,
+      // A day imported without its cost has no model costs either
+      cost: day.totalCost === undefined ? undefined : model.cost,
+    })),
     timestamp: new Date().toISOString(),
   }));
 }
 
+/**
+ * Summarize one session's transcript records into a session record,
+ * dated in `timeZone` (the system zone when unset). The per-model breakdown is returned alongside so privacy settings can
+ * subtract excluded models; it is not uploaded.
+ */
+export function transformToSessionRecord(
+  sessionId: string,
+  transcript: { records: UsageRecord[]; startedAt?: Date; endedAt?: Date },
+  reason?: string,
+  timeZone?: string
+): { session: SessionRecord; modelBreakdowns: ModelBreakdown[] } {
+  const models = new Map<string, ModelBreakdown>();
+  for (const record of transcript.records) {
+    const existing = models.get(record.model);
+    if (existing) {
+      existing.inputTokens += record.inputTokens;
+      existing.outputTokens += record.outputTokens;
+      existing.cacheCreationTokens += record.cacheCreationTokens;
+      existing.cacheReadTokens += record.cacheReadTokens;
+      existing.cost += record.cost;
+    } else {
+      models.set(record.model, {
+        modelName: record.model,
+        inputTokens: record.inputTokens,
+        outputTokens: record.outputTokens,
+        cacheCreationTokens: record.cacheCreationTokens,
+        cacheReadTokens: record.cacheReadTokens,
+        cost: record.cost,
+      });
+    }
+  }
+
+  const modelBreakdowns = Array.from(models.values()).sort((a, b) => b.cost - a.cost);
+  const startedAt = transcript.startedAt || new Date();
+  const endedAt = transcript.endedAt || startedAt;
+  const session: SessionRecord = {
+    sessionId,
+    date: toLocalDate(startedAt, timeZone),
+    utcDate: startedAt.toISOString().split('T')[0],
+    startedAt: startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    durationSeconds: Math.max(Math.round((endedAt.getTime() - startedAt.getTime()) / 1000), 0),
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    totalTokens: 0,
+    modelsUsed: modelBreakdowns.map(model => model.modelName),
+    reason,
+  };
+  let cost = 0;
+  for (const model of modelBreakdowns) {
+    session.inputTokens += model.inputTokens;
+    session.outputTokens += model.outputTokens;
+    session.cacheCreationTokens += model.cacheCreationTokens;
+    session.cacheReadTokens += model.cacheReadTokens;
+    cost += model.cost;
+  }
+  session.totalTokens = session.inputTokens + session.outputTokens + session.cacheCreationTokens + session.cacheReadTokens;
+  session.cost = cost;
+
+  return { session, modelBreakdowns };
+}
+
+/**
+ * ccusage report kinds, keyed by the top-level array each one emits
+ */
+export type UsageReportType = 'daily' | 'weekly' | 'monthly' | 'session' | 'blocks';
+
+const REPORT_KEYS: Record<UsageReportType, string> = {
+  daily: 'daily',
+  weekly: 'weekly',
+  monthly: 'monthly',
+  session: 'sessions',
+  blocks: 'blocks',
+};
+
+/**
+ * Detect which ccusage report a JSON document is
+ */
+export function detectReportType(data: any): UsageReportType | undefined {
+  if (!data || typeof data !== 'object') {
+    return undefined;
+  }
+  return (Object.keys(REPORT_KEYS) as UsageReportType[]).find(type => Array.isArray(data[REPORT_KEYS[type]]));
+}
+
+/**
+ * Explain why a ccusage report cannot be uploaded, or undefined if it can.
+ * The server only stores daily totals (weekly and monthly rankings are built
+ * from them), so every other report kind is rejected with a pointer to the
+ * daily report.
+ */
+export function describeUnsupportedReport(data: any): string | undefined {
+  const type = detectReportType(data);
+  const hint = 'Run `ccrank sync` without --stdin, or pipe `ccusage daily --json` instead.';
+
+  switch (type) {
+    case 'daily':
+      return undefined;
+    case 'weekly':
+    case 'monthly':
+      return `This is a ccusage ${type} report. The leaderboard stores daily totals and builds its weekly and monthly rankings from them, so ${type} totals can't be uploaded.\n${hint}`;
+    case 'session':
+      return `This is a ccusage session report. Sessions are grouped by conversation rather than by day, so they can't be uploaded as daily totals.\n${hint}`;
+    case 'blocks':
+      return `This is a ccusage blocks report. 5-hour billing blocks don't map to daily totals, so they can't be uploaded.\n${hint}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert a per-project daily report (`ccusage daily --instances --json`,
+ * shaped { projects: { [project]: DailyUsage[] } }) to a plain daily report
+ * whose days carry their project breakdown. Other reports are returned as is.
+ */
+export function normalizeUsageReport(data: any): any {
+  if (!data || typeof data !== 'object' || Array.isArray(data.daily) ||
+      !data.projects || typeof data.projects !== 'object' || Array.isArray(data.projects)) {
+    return data;
+  }
+
+  const days = new Map<string, DailyUsage>();
+  for (const [projectPath, projectDays] of Object.entries(data.projects as Record<string, DailyUsage[]>)) {
+    if (!Array.isArray(projectDays)) continue;
+    for (const usage of projectDays) {
+      let day = days.get(usage.date);
+      if (!day) {
+        day = {
+          date: usage.date,
+          inputTokens: 0,
+          outputTokens: 0,
+          cacheCreationTokens: 0,
+          cacheReadTokens: 0,
+          totalTokens: 0,
+          totalCost: 0,
+          modelsUsed: [],
+          modelBreakdowns: [],
+          projects: [],
+        };
+        days.set(usage.date, day);
+      }
+
+      day.inputTokens += usage.inputTokens || 0;
+      day.outputTokens += usage.outputTokens || 0;
+      day.cacheCreationTokens += usage.cacheCreationTokens || 0;
+      day.cacheReadTokens += usage.cacheReadTokens || 0;
+      day.totalTokens += usage.totalTokens || 0;
+      day.totalCost = (day.totalCost || 0) + (usage.totalCost || 0);
+      day.modelsUsed = Array.from(new Set([...day.modelsUsed, ...(usage.modelsUsed || [])]));
+      for (const model of usage.modelBreakdowns || []) {
+        const existing: ModelBreakdown | undefined = day.modelBreakdowns.find(m => m.modelName === model.modelName);
+        if (existing) {
+          existing.inputTokens += model.inputTokens;
+          existing.outputTokens += model.outputTokens;
+          existing.cacheCreationTokens += model.cacheCreationTokens;
+          existing.cacheReadTokens += model.cacheReadTokens;
+          existing.cost += model.cost;
+        } else {
+          day.modelBreakdowns.push({ ...model });
+        }
+      }
+      day.projects!.push({
+        projectPath,
+        inputTokens: usage.inputTokens || 0,
+        outputTokens: usage.outputTokens || 0,
+        cacheCreationTokens: usage.cacheCreationTokens || 0,
+        cacheReadTokens: usage.cacheReadTokens || 0,
+        cost: usage.totalCost || 0,
+      });
+    }
+  }
+
+  return { daily: Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date)) };
+}
+
 /**
  * Validate ccusage output structure
  */
@@ -104,7 +279,7 @@ function calculateSummary(daily: any[]) {
         totalCacheCreationTokens: acc.totalCacheCreationTokens + day.cacheCreationTokens,
         totalCacheReadTokens: acc.totalCacheReadTokens + day.cacheReadTokens,
         totalTokens: acc.totalTokens + day.totalTokens,
-        totalCost: acc.totalCost + day.totalCost,
+        totalCost: acc.totalCost + (day.totalCost || 0),
       };
     },
     {
@@ -11,6 +11,18 @@ export interface ModelBreakdown {
   cost: number;
 }
 
+/**
+ * Usage of one project directory on one day (local only; never uploaded as is)
+ */
+export interface ProjectUsage {
+  projectPath: string; // Working directory, or Claude Code's encoded project directory name
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  cost: number;
+}
+
 export interface DailyUsage {
   date: string;
   inputTokens: number;
@@ -18,9 +30,10 @@ export interface DailyUsage {
   cacheCreationTokens: number;
   cacheReadTokens: number;
   totalTokens: number;
-  totalCost: number;
+  totalCost?: number; // Omitted for imported days whose cost was hidden
   modelsUsed: string[];
   modelBreakdowns: ModelBreakdown[];
+  projects?: ProjectUsage[];
 }
 
 export interface CCUsageOutput {
@@ -36,10 +49,54 @@ export interface CCUsageOutput {
   };
 }
 
+export type DataSource = 'ccusage' | 'native';
+
+export type CostRedaction = 'none' | 'round' | 'drop';
+
+export type ProjectSharing = 'off' | 'hashed' | 'aliased';
+
 export interface Config {
   apiKey: string;
   apiEndpoint?: string;
   username?: string;
+  source?: DataSource; // Where sync reads usage from (default: ccusage)
+  deviceId?: string; // Stable ID for this machine; the server keeps one copy of each day per device
+  timeZone?: string; // IANA time zone of the usage dates (default: system zone)
+  redactCost?: CostRedaction; // Upload exact costs, whole dollars, or none at all (default: none)
+  tokenBucket?: string; // Round token counts to multiples of this size before upload
+  excludeModels?: string; // Comma-separated model names (`*` wildcards) left out of uploads
+  excludeDates?: string; // Comma-separated dates or YYYY-MM-DD..YYYY-MM-DD ranges left out of uploads
+  shareProjects?: ProjectSharing; // Upload per-project breakdowns under hashes or aliases (default: off)
+  projectAliases?: string; // Comma-separated path=alias pairs; aliases are the only project names uploaded
+  projectAllowlist?: string; // Comma-separated path globs broken out per project; the rest is uploaded as "other"
+  projectSalt?: string; // Secret salt for hashed project labels, created on first use
+  syncDebounce?: string; // Seconds the SessionEnd hook waits for further session ends before syncing
+  minSyncInterval?: string; // Minimum seconds between hook-triggered syncs
+}
+
+/**
+ * Layout of config.json: the top-level fields are the default profile,
+ * other named profiles live under `profiles`
+ */
+export interface ConfigFile extends Partial<Config> {
+  profiles?: Record<string, Partial<Config>>;
+}
+
+/**
+ * Per-model breakdown as uploaded; cost is omitted when redacted
+ */
+export type LeaderboardModelBreakdown = Omit<ModelBreakdown, 'cost'> & { cost?: number };
+
+/**
+ * Per-project breakdown as uploaded, labelled by hash or alias (never a path)
+ */
+export interface LeaderboardProjectBreakdown {
+  project: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  cost?: number; // Omitted when the cost is redacted
 }
 
 export interface LeaderboardEntry {
@@ -48,12 +105,14 @@ export interface LeaderboardEntry {
   utcDate: string; // UTC date (YYYY-MM-DD) for accurate cross-timezone comparisons
   timezoneOffset: number; // Minutes offset from UTC (e.g., -480 for PST)
   totalTokens: number;
-  totalCost: number;
+  totalCost?: number; // Omitted when the cost is redacted
   inputTokens: number;
   outputTokens: number;
   cacheCreationTokens: number;
   cacheReadTokens: number;
   modelsUsed: string[];
+  modelBreakdowns: LeaderboardModelBreakdown[]; // Per-model tokens and cost for the day
+  projectBreakdowns?: LeaderboardProjectBreakdown[]; // Per-project tokens and cost, when sharing is enabled
   timestamp: string;
 }
 
@@ -61,11 +120,171 @@ export interface SyncPayload {
   entries: LeaderboardEntry[];
   source: 'ccusage';
   version: string;
+  partial?: boolean; // Only replace the dates included in this upload
+  deviceId?: string;
+  timeZone?: string; // IANA zone the entry dates are local to
 }
 
 export interface SyncResponse {
   success: boolean;
   message: string;
   entriesProcessed: number;
+  username?: string; // Account the API key belongs to
   leaderboardUrl?: string;
 }
+
+/**
+ * JSON that Claude Code passes on stdin to SessionEnd hooks
+ */
+export interface SessionEndPayload {
+  session_id: string;
+  transcript_path: string;
+  cwd?: string;
+  reason?: string; // e.g. clear, logout, prompt_input_exit, other
+  hook_event_name?: string;
+}
+
+/**
+ * Usage of a single Claude Code session, as uploaded
+ */
+export interface SessionRecord {
+  sessionId: string;
+  date: string; // Local date the session started (YYYY-MM-DD)
+  utcDate: string; // UTC date the session started (YYYY-MM-DD)
+  startedAt: string; // ISO timestamp of the first transcript entry
+  endedAt: string; // ISO timestamp of the last transcript entry
+  durationSeconds: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  cost?: number; // Omitted when the cost is redacted
+  modelsUsed: string[];
+  reason?: string; // Why the session ended
+  project?: string; // Alias or hash, when project sharing is enabled
+}
+
+export interface SessionUploadResponse {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * One day as stored on the server for one device
+ */
+export interface RemoteStatsDay {
+  date: string;
+  utcDate?: string;
+  timezoneOffset?: number;
+  deviceId?: string; // Unset for rows uploaded before device IDs existed
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  totalCost?: number; // Omitted when the cost is hidden
+  modelsUsed: string[];
+  modelBreakdowns: LeaderboardModelBreakdown[];
+  updatedAt: string; // ISO timestamp
+}
+
+export interface RemoteStatsResponse {
+  username: string;
+  since: string;
+  until: string;
+  days: RemoteStatsDay[];
+}
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export type RankPeriod = 'daily' | 'weekly' | 'monthly' | 'allTime';
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'monthly' | 'alltime';
+
+/**
+ * One row of the public leaderboard (GET /api/leaderboard)
+ */
+export interface PublicLeaderboardEntry {
+  rank: number;
+  rankChange: number | 'new' | null; // Places moved up since the previous period; null for all-time
+  username: string;
+  totalTokens: number;
+  totalCost: number | null; // Null when the user hides costs
+  costHidden: boolean;
+  lastSyncedAt: string | null; // ISO timestamp
+}
+
+export interface PublicLeaderboardResponse {
+  period: LeaderboardPeriod;
+  team: { id: string; name: string } | null;
+  summary: { totalTokens: number; totalCost: number; totalUsers: number };
+  entries: PublicLeaderboardEntry[];
+}
+
+/**
+ * The authenticated user as the server sees them (GET /api/whoami)
+ */
+export interface WhoamiResponse {
+  username: string;
+  github: { username: string } | null;
+  slack: { userId: string; teamId: string; teamName?: string } | null;
+  memberSince: string; // ISO timestamp
+  apiKey: { prefix: string; createdAt: string };
+  server: {
+    days: number; // Distinct dates held, across devices
+    devices: number;
+    firstDate: string | null;
+    lastDate: string | null;
+    updatedAt: string | null; // Last time the server received data
+  };
+  ranks: Record<RankPeriod, { rank: number | null; totalParticipants: number }>;
+}
+
+export interface DeviceCodeResponse {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  verificationUriComplete: string;
+  expiresIn: number; // seconds
+  interval: number; // seconds between polls
+}
+
+export type DeviceTokenResponse =
+  | { status: 'pending' | 'slow_down' | 'denied' | 'expired' }
+  | { status: 'approved'; apiKey: string; keyPrefix: string; username: string };
+
+export interface SyncLedgerDay {
+  hash: string; // Content hash of the uploaded entry
+  uploadedAt: string; // ISO timestamp of the successful upload
+}
+
+export interface SyncLedger {
+  target: string; // Endpoint + username the ledger was recorded against
+  days: Record<string, SyncLedgerDay>; // Keyed by local date (YYYY-MM-DD)
+}
+
+/**
+ * Layout of ledger.json: one ledger per target, so profiles that sync to
+ * different leaderboards don't reset each other
+ */
+export interface SyncLedgerFile {
+  targets: Record<string, Record<string, SyncLedgerDay>>;
+}
+
+export interface QueueItem {
+  id: string;
+  createdAt: string; // ISO timestamp of the original failed upload
+  attempts: number; // Failed upload attempts so far
+  nextAttemptAt: string; // ISO timestamp before which the item is not retried
+  lastError?: string;
+  apiEndpoint: string;
+  username: string;
+  deviceId: string;
+  ledgerTarget: string;
+  partial: boolean; // Whether the upload only replaces the included dates
+  timeZone?: string; // IANA zone the entry dates are local to
+  profile?: string; // Config profile whose API key delivers the upload (default: default)
+  entries: LeaderboardEntry[]; // Empty for session uploads
+  session?: SessionRecord; // Set for a session upload instead of daily entries
+}
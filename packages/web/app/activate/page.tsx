@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, Suspense } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useSession, signIn } from "next-auth/react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+
+type Outcome = "approved" | "denied";
+
+/**
+ * Format free-form input as the XXXX-XXXX code shown by `ccrank login`.
+ */
+function formatUserCode(input: string): string {
+  const compact = input.toUpperCase().replace(/[^A-Z]/g, "").slice(0, 8);
+  return compact.length > 4 ? `${compact.slice(0, 4)}-${compact.slice(4)}` : compact;
+}
+
+function ActivateContent() {
+  const searchParams = useSearchParams();
+  const { data: session } = useSession();
+
+  const user = session?.user as { username?: string; name?: string | null; image?: string | null } | undefined;
+  const username = user?.username || user?.name || "";
+
+  const [userCode, setUserCode] = useState(() => formatUserCode(searchParams.get("code") || ""));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isComplete = userCode.length === 9;
+  const codeStatus = useQuery(
+    api.deviceCodes.getDeviceCodeStatus,
+    isComplete && !outcome ? { userCode } : "skip"
+  );
+
+  const resolve = async (action: "approve" | "deny") => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/device/approve", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userCode, action }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to confirm login");
+      }
+
+      setOutcome(action === "approve" ? "approved" : "denied");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to confirm login");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const statusMessage = !isComplete || codeStatus === undefined
+    ? null
+    : codeStatus === null
+      ? "Unknown code. Check the code shown in your terminal."
+      : codeStatus.status === "expired"
+        ? "This code has expired. Run `ccrank login` again."
+        : codeStatus.status !== "pending"
+          ? "This code has already been used."
+          : null;
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-white/80 backdrop-blur-md border-b border-[#e0e0e0]">
+        <div className="max-w-5xl mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-3 hover:opacity-80 transition-opacity">
+            <Image
+              src="https://media.licdn.com/dms/image/v2/D4E0BAQHepn-93K0ntg/company-logo_200_200/B4EZiEuaY_GcAI-/0/1754573416289/rye_logo?e=2147483647&v=beta&t=-SpDi-JH-E3R2SCJ-jaP-1qv15Ciyhq0ItgKJRE4GDY"
+              alt="Rye logo"
+              width={40}
+              height={40}
+              className="w-10 h-10"
+            />
+            <h1 className="text-xl font-bold text-black">Claude Code Usage Leaderboard</h1>
+          </Link>
+
+          <Link
+            href="/"
+            className="px-4 py-2 text-sm font-medium text-black bg-[#CCFF6F] hover:bg-[#b8e65f] border border-[#CCFF6F] transition-colors"
+          >
+            Back to Leaderboard
+          </Link>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="flex-1 flex items-center justify-center p-4">
+        <div className="max-w-xl w-full">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-black mb-2">Connect the CLI</h1>
+            <p className="text-gray-600">Approve the login started with <code className="bg-white px-1.5 py-0.5 border border-[#e0e0e0] text-sm">ccrank login</code></p>
+          </div>
+
+          {!session ? (
+            <div className="bg-[#f5f5f5] border border-[#e0e0e0] p-6 text-center">
+              <p className="text-gray-600 mb-6">Sign in with GitHub to approve this device</p>
+              <button
+                onClick={() => signIn("github")}
+                className="inline-flex items-center gap-3 px-6 py-3 bg-[#24292e] hover:bg-[#2f363d] text-white font-medium rounded-lg transition-colors"
+              >
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                  <path fillRule="evenodd" clipRule="evenodd" d="M12 2C6.477 2 2 6.477 2 12c0 4.42 2.87 8.17 6.84 9.5.5.08.66-.23.66-.5v-1.69c-2.77.6-3.36-1.34-3.36-1.34-.46-1.16-1.11-1.47-1.11-1.47-.91-.62.07-.6.07-.6 1 .07 1.53 1.03 1.53 1.03.87 1.52 2.34 1.07 2.91.83.09-.65.35-1.09.63-1.34-2.22-.25-4.55-1.11-4.55-4.92 0-1.11.38-2 1.03-2.71-.1-.25-.45-1.29.1-2.64 0 0 .84-.27 2.75 1.02.79-.22 1.65-.33 2.5-.33.85 0 1.71.11 2.5.33 1.91-1.29 2.75-1.02 2.75-1.02.55 1.35.2 2.39.1 2.64.65.71 1.03 1.6 1.03 2.71 0 3.82-2.34 4.66-4.57 4.91.36.31.69.92.69 1.85V21c0 .27.16.59.67.5C19.14 20.16 22 16.42 22 12A10 10 0 0012 2z" />
+                </svg>
+                Sign in with GitHub
+              </button>
+            </div>
+          ) : outcome ? (
+            <div className="bg-[#f5f5f5] border border-[#e0e0e0] p-6 text-center">
+              {outcome === "approved" ? (
+                <>
+                  <div className="w-12 h-12 mx-auto mb-3 bg-[#CCFF6F] flex items-center justify-center">
+                    <svg className="w-6 h-6 text-black" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                    </svg>
+                  </div>
+                  <p className="text-black font-medium mb-2">Device approved</p>
+                  <p className="text-gray-600 text-sm">Return to your terminal. The CLI will finish setup on its own.</p>
+                </>
+              ) : (
+                <>
+                  <p className="text-black font-medium mb-2">Login denied</p>
+                  <p className="text-gray-600 text-sm">No API key was issued. You can close this page.</p>
+                </>
+              )}
+            </div>
+          ) : (
+            <div className="bg-[#f5f5f5] border border-[#e0e0e0] p-6">
+              <div className="mb-6 flex items-center gap-3">
+                {session.user?.image && (
+                  <Image
+                    src={session.user.image}
+                    alt=""
+                    width={40}
+                    height={40}
+                    className="w-10 h-10 rounded-full"
+                  />
+                )}
+                <div>
+                  <p className="text-black font-medium">@{username}</p>
+                  <p className="text-gray-500 text-sm">Signed in with GitHub</p>
+                </div>
+              </div>
+
+              <label htmlFor="user-code" className="block text-gray-600 text-sm mb-3">
+                Enter the code shown in your terminal:
+              </label>
+              <input
+                id="user-code"
+                value={userCode}
+                onChange={(e) => setUserCode(formatUserCode(e.target.value))}
+                placeholder="XXXX-XXXX"
+                autoComplete="off"
+                spellCheck={false}
+                className="w-full bg-white border border-[#e0e0e0] p-4 font-mono text-2xl tracking-widest text-center text-black uppercase focus:outline-none focus:border-black"
+              />
+
+              {(error || statusMessage) && (
+                <div className="mt-4 p-3 bg-red-50 border border-red-200 text-red-700 text-sm">
+                  {error || statusMessage}
+                </div>
+              )}
+
+              <p className="text-gray-500 text-xs mt-4">
+                Approving creates a new API key for @{username} and sends it to the CLI. Keys on your other machines keep working.
+              </p>
+
+              <div className="mt-6 flex gap-3">
+                <button
+                  onClick={() => resolve("approve")}
+                  disabled={!isComplete || isSubmitting || !!statusMessage}
+                  className="flex-1 px-4 py-2 text-sm font-medium text-black bg-[#CCFF6F] hover:bg-[#b8e65f] border border-[#CCFF6F] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting ? "Confirming..." : "Approve"}
+                </button>
+                <button
+                  onClick={() => resolve("deny")}
+                  disabled={!isComplete || isSubmitting || !!statusMessage}
+                  className="px-4 py-2 text-sm font-medium text-black bg-white hover:bg-gray-50 border border-[#e0e0e0] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Deny
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t border-[#e0e0e0] py-6">
+        <div className="max-w-5xl mx-auto px-4 flex items-center justify-center gap-2">
+          <Image
+            src="https://media.licdn.com/dms/image/v2/D4E0BAQHepn-93K0ntg/company-logo_200_200/B4EZiEuaY_GcAI-/0/1754573416289/rye_logo?e=2147483647&v=beta&t=-SpDi-JH-E3R2SCJ-jaP-1qv15Ciyhq0ItgKJRE4GDY"
+            alt="Rye logo"
+            width={20}
+            height={20}
+            className="w-5 h-5"
+          />
+          <span className="text-sm font-semibold text-black">Rye</span>
+        </div>
+      </footer>
+    </div>
+  );
+}
+
+export default function ActivatePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center">
+          Loading...
+        </div>
+      }
+    >
+      <ActivateContent />
+    </Suspense>
+  );
+}
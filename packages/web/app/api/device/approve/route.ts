@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { getConvexClient } from "@/lib/convex";
+import { api } from "@/convex/_generated/api";
+
+/**
+ * Approve or deny a CLI login code for the authenticated user.
+ * Requires GitHub OAuth session.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Authentication required. Please sign in with GitHub." },
+        { status: 401 }
+      );
+    }
+
+    const user = session.user as { username?: string; githubId?: string };
+    const githubUsername = user.username;
+    const githubId = user.githubId;
+
+    if (!githubUsername) {
+      return NextResponse.json(
+        { error: "GitHub username not found in session" },
+        { status: 400 }
+      );
+    }
+
+    let body: { userCode?: unknown; action?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    if (typeof body.userCode !== "string" || body.userCode.replace(/[^A-Za-z]/g, "").length !== 8) {
+      return NextResponse.json(
+        { error: "Enter the 8-letter code shown in your terminal" },
+        { status: 400 }
+      );
+    }
+    if (body.action !== "approve" && body.action !== "deny") {
+      return NextResponse.json(
+        { error: "Action must be 'approve' or 'deny'" },
+        { status: 400 }
+      );
+    }
+
+    const convex = getConvexClient();
+
+    const userId = await convex.mutation(api.users.getOrCreateGitHubUser, {
+      githubId: githubId || githubUsername.toLowerCase(),
+      githubUsername: githubUsername,
+    });
+
+    const result = await convex.mutation(api.deviceCodes.resolveDeviceCode, {
+      userCode: body.userCode,
+      userId,
+      approve: body.action === "approve",
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      username: githubUsername,
+    });
+  } catch (error) {
+    console.error("Error resolving device code:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to resolve login code" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getConvexClient } from "@/lib/convex";
+import { api } from "@/convex/_generated/api";
+
+/**
+ * Start a device-code login for the CLI (`ccrank login`).
+ * Returns a secret device code to poll with and a short user code to
+ * enter on the /activate page.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const convex = getConvexClient();
+    const result = await convex.mutation(api.deviceCodes.createDeviceCode, {});
+
+    const verificationUri = `${request.nextUrl.origin}/activate`;
+
+    return NextResponse.json({
+      deviceCode: result.deviceCode,
+      userCode: result.userCode,
+      verificationUri,
+      verificationUriComplete: `${verificationUri}?code=${encodeURIComponent(result.userCode)}`,
+      expiresIn: result.expiresIn,
+      interval: result.interval,
+    });
+  } catch (error) {
+    console.error("Error creating device code:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to start login" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getConvexClient } from "@/lib/convex";
+import { api } from "@/convex/_generated/api";
+
+/**
+ * Poll a device-code login.
+ * Once the user approves the code on /activate, an extra API key is minted
+ * and returned exactly once.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: { deviceCode?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    if (typeof body.deviceCode !== "string" || !/^[a-f0-9]{64}$/.test(body.deviceCode)) {
+      return NextResponse.json({ error: "Invalid device code" }, { status: 400 });
+    }
+
+    const convex = getConvexClient();
+    const result = await convex.mutation(api.deviceCodes.pollDeviceCode, {
+      deviceCode: body.deviceCode,
+    });
+
+    if (result.status === "pending" || result.status === "slow_down") {
+      return NextResponse.json({ status: result.status });
+    }
+
+    if (result.status === "denied") {
+      return NextResponse.json(
+        { status: "denied", error: "Login was denied in the browser" },
+        { status: 403 }
+      );
+    }
+
+    if (result.status === "expired") {
+      return NextResponse.json(
+        { status: "expired", error: "Login code expired", hint: "Run `ccrank login` again" },
+        { status: 410 }
+      );
+    }
+
+    if (result.status !== "approved" || !result.userId) {
+      return NextResponse.json({ error: "Unexpected login state" }, { status: 500 });
+    }
+
+    // Approved: mint a key for the user who approved the code
+    const user = await convex.query(api.users.getUserById, { userId: result.userId });
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const keyResult = await convex.mutation(api.apiKeys.generateDeviceApiKey, {
+      userId: result.userId,
+    });
+
+    return NextResponse.json({
+      status: "approved",
+      apiKey: keyResult.apiKey,
+      keyPrefix: keyResult.keyPrefix,
+      username: user.githubUsername || user.displayName || "",
+    });
+  } catch (error) {
+    console.error("Error polling device code:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to poll login" },
+      { status: 500 }
+    );
+  }
+}
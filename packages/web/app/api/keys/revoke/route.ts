@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getConvexClient } from "@/lib/convex";
+import { api } from "@/convex/_generated/api";
+
+/**
+ * Revoke the API key used to authenticate this request.
+ * Used by `ccrank uninstall` to retire a machine's key.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json(
+        {
+          error: "Authentication required",
+          hint: "Include the API key to revoke in the Authorization header: -H 'Authorization: Bearer YOUR_API_KEY'"
+        },
+        { status: 401 }
+      );
+    }
+
+    const apiKey = authHeader.substring(7); // Remove "Bearer " prefix
+    const convex = getConvexClient();
+
+    const result = await convex.mutation(api.apiKeys.revokeApiKeyByValue, { apiKey });
+    if (!result) {
+      return NextResponse.json(
+        { error: "Invalid or revoked API key" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      keyPrefix: result.keyPrefix,
+      message: "API key revoked",
+    });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to revoke API key" },
+      { status: 500 }
+    );
+  }
+}
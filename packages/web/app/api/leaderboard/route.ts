@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getConvexClient } from "@/lib/convex";
+import { api } from "@/convex/_generated/api";
+
+const PERIODS = ["daily", "weekly", "monthly", "alltime"] as const;
+type Period = typeof PERIODS[number];
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+/**
+ * Public, read-only leaderboard: the same standings as the home page.
+ * Used by `ccrank leaderboard` and `ccrank top`.
+ *
+ * Query parameters:
+ *   period: daily, weekly (default), monthly or alltime
+ *   team: Slack workspace name or team ID (optional)
+ *   limit: number of entries, 1-100 (default 25)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+
+    const period = (params.get("period") || "weekly") as Period;
+    if (!PERIODS.includes(period)) {
+      return NextResponse.json(
+        { error: `Invalid period. Expected one of: ${PERIODS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = params.has("limit") ? Number(params.get("limit")) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `Invalid limit. Expected a whole number from 1 to ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const convex = getConvexClient();
+
+    // Teams are named by their Slack workspace, or by team ID
+    let team: { id: string; name: string } | null = null;
+    const teamParam = params.get("team");
+    if (teamParam) {
+      const workspaces = await convex.query(api.slack.listWorkspaces, {});
+      const workspace = workspaces.find(
+        (w) => w.teamId === teamParam || w.teamName.toLowerCase() === teamParam.toLowerCase()
+      );
+      if (!workspace) {
+        return NextResponse.json(
+          { error: "Unknown team", hint: "Use the Slack workspace name or its team ID" },
+          { status: 404 }
+        );
+      }
+      team = { id: workspace.teamId, name: workspace.teamName };
+    }
+
+    const { statsSummary, leaderboard } = await convex.query(api.leaderboard.getPageData, {
+      period,
+      limit,
+      teamId: team?.id,
+    });
+
+    // Only what the home page shows; internal user IDs stay private
+    return NextResponse.json(
+      {
+        period,
+        team,
+        summary: {
+          totalTokens: statsSummary.totalTokens,
+          totalCost: statsSummary.totalCost,
+          totalUsers: statsSummary.totalUsers,
+        },
+        entries: leaderboard.map((entry) => ({
+          rank: entry.rank,
+          rankChange: entry.rankChange,
+          username: entry.displayName || `User ${entry.slackUserId.slice(-4)}`,
+          totalTokens: entry.totalTokens,
+          // Hidden costs rank as $0; don't report them as spend
+          totalCost: entry.costHidden ? null : entry.totalCost,
+          costHidden: entry.costHidden,
+          lastSyncedAt: entry.lastSyncedAt ? new Date(entry.lastSyncedAt).toISOString() : null,
+        })),
+      },
+      { headers: { "Cache-Control": "public, s-maxage=30, stale-while-revalidate=60" } }
+    );
+  } catch (error) {
+    console.error("Leaderboard error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getConvexClient } from "@/lib/convex";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+
+// Pseudo teams of users who signed in without Slack
+const NON_SLACK_TEAMS = ["github", "web"];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Return the authenticated user's usage per project, and their Slack team's
+ * usage per aliased project, over a date range.
+ * Projects are labelled by the CLI (alias, salted hash, or "other").
+ *
+ * Query parameters: since, until (YYYY-MM-DD, inclusive, both optional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json(
+        {
+          error: "Authentication required",
+          hint: "Include your API key in the Authorization header: -H 'Authorization: Bearer YOUR_API_KEY'"
+        },
+        { status: 401 }
+      );
+    }
+
+    const since = request.nextUrl.searchParams.get("since") || "0000-01-01";
+    const until = request.nextUrl.searchParams.get("until") || "9999-12-31";
+    if (!DATE_PATTERN.test(since) || !DATE_PATTERN.test(until)) {
+      return NextResponse.json(
+        { error: "Invalid date format. Expected YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = authHeader.substring(7); // Remove "Bearer " prefix
+    const convex = getConvexClient();
+
+    const validation = await convex.query(api.apiKeys.validateApiKeyWithUser, { apiKey });
+    if (!validation) {
+      return NextResponse.json(
+        { error: "Invalid or revoked API key" },
+        { status: 401 }
+      );
+    }
+
+    const userId = validation.userId as Id<"users">;
+    const teamId = validation.user.slackTeamId;
+    const isSlackUser = !NON_SLACK_TEAMS.includes(teamId);
+
+    const [projects, teamProjects] = await Promise.all([
+      convex.query(api.stats.getUserProjectStats, { userId, startDate: since, endDate: until }),
+      isSlackUser
+        ? convex.query(api.stats.getTeamProjectStats, { teamId, startDate: since, endDate: until })
+        : null,
+    ]);
+
+    // Hidden costs are stored as 0; leave them out rather than report $0
+    const present = (project: (typeof projects)[number]) => ({
+      ...project,
+      cost: project.costHidden ? undefined : project.cost,
+    });
+
+    return NextResponse.json({
+      username: validation.user.githubUsername || validation.user.displayName || "",
+      since,
+      until,
+      projects: projects.map(present),
+      team: teamProjects ? { teamId, projects: teamProjects.map(present) } : null,
+    });
+  } catch (error) {
+    console.error("Project stats error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getConvexClient } from "@/lib/convex";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+
+interface SessionEntry {
+  sessionId: string;
+  date: string; // User's local date the session started (YYYY-MM-DD)
+  utcDate: string; // UTC date the session started (YYYY-MM-DD)
+  startedAt: string; // ISO timestamp
+  endedAt: string; // ISO timestamp
+  durationSeconds: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  cost?: number; // Omitted when the uploader hides costs
+  modelsUsed: string[];
+  reason?: string;
+  project?: string; // Alias or hash chosen on the client
+}
+
+interface SessionRequestBody {
+  session?: SessionEntry;
+  deviceId?: string;
+}
+
+// Pseudo teams of users who signed in without Slack
+const NON_SLACK_TEAMS = ["github", "web"];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PROJECT_LABEL_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+/**
+ * Validate a session record
+ */
+function validateSession(session: SessionEntry | undefined): string | undefined {
+  if (!session || typeof session !== "object") {
+    return "Missing 'session' object";
+  }
+  if (typeof session.sessionId !== "string" || !/^[A-Za-z0-9_-]{1,128}$/.test(session.sessionId)) {
+    return "Invalid sessionId";
+  }
+  if (!DATE_PATTERN.test(session.date) || !DATE_PATTERN.test(session.utcDate)) {
+    return "Invalid date format. Expected YYYY-MM-DD";
+  }
+  if (isNaN(Date.parse(session.startedAt)) || isNaN(Date.parse(session.endedAt))) {
+    return "startedAt and endedAt must be ISO timestamps";
+  }
+  const values = [
+    session.durationSeconds,
+    session.inputTokens,
+    session.outputTokens,
+    session.cacheCreationTokens,
+    session.cacheReadTokens,
+    session.totalTokens,
+    session.cost ?? 0,
+  ];
+  if (values.some((value) => typeof value !== "number" || !Number.isFinite(value) || value < 0)) {
+    return "Token counts, cost and duration must be non-negative numbers";
+  }
+  if (!Array.isArray(session.modelsUsed) || session.modelsUsed.some((model) => typeof model !== "string")) {
+    return "modelsUsed must be an array of strings";
+  }
+  if (session.reason !== undefined && (typeof session.reason !== "string" || session.reason.length > 64)) {
+    return "Invalid reason";
+  }
+  if (session.project !== undefined && (typeof session.project !== "string" || !PROJECT_LABEL_PATTERN.test(session.project))) {
+    return "Invalid project label: use 1-64 letters, digits, '.', '-' or '_' (not a path)";
+  }
+  return undefined;
+}
+
+/**
+ * Record one Claude Code session, uploaded by `ccrank hook session-end`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json(
+        {
+          error: "Authentication required",
+          hint: "Include your API key in the Authorization header: -H 'Authorization: Bearer YOUR_API_KEY'"
+        },
+        { status: 401 }
+      );
+    }
+
+    const apiKey = authHeader.substring(7); // Remove "Bearer " prefix
+    const convex = getConvexClient();
+
+    const validation = await convex.query(api.apiKeys.validateApiKeyWithUser, { apiKey });
+    if (!validation) {
+      return NextResponse.json(
+        { error: "Invalid or revoked API key" },
+        { status: 401 }
+      );
+    }
+
+    let body: SessionRequestBody;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const error = validateSession(body.session);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const session = body.session!;
+
+    const deviceId = body.deviceId;
+    if (deviceId !== undefined && (typeof deviceId !== "string" || !/^[A-Za-z0-9_-]{1,64}$/.test(deviceId))) {
+      return NextResponse.json(
+        { error: "Invalid deviceId. Expected 1-64 alphanumeric, '-' or '_' characters." },
+        { status: 400 }
+      );
+    }
+
+    const result = await convex.mutation(api.sessions.recordSession, {
+      userId: validation.userId as Id<"users">,
+      deviceId,
+      session: {
+        sessionId: session.sessionId,
+        date: session.date,
+        utcDate: session.utcDate,
+        startedAt: Date.parse(session.startedAt),
+        endedAt: Date.parse(session.endedAt),
+        durationSeconds: session.durationSeconds,
+        inputTokens: session.inputTokens,
+        outputTokens: session.outputTokens,
+        cacheCreationTokens: session.cacheCreationTokens,
+        cacheReadTokens: session.cacheReadTokens,
+        totalTokens: session.totalTokens,
+        cost: session.cost ?? undefined,
+        modelsUsed: session.modelsUsed,
+        reason: session.reason,
+        project: session.project,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `${result.updated ? "Updated" : "Recorded"} session ${session.sessionId.slice(0, 8)}`,
+    });
+  } catch (error) {
+    console.error("Session upload error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Return sessions per day for the authenticated user and, for Slack users,
+ * their team, by the UTC day each session started.
+ *
+ * Query parameters: since, until (YYYY-MM-DD, inclusive, both optional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json(
+        {
+          error: "Authentication required",
+          hint: "Include your API key in the Authorization header: -H 'Authorization: Bearer YOUR_API_KEY'"
+        },
+        { status: 401 }
+      );
+    }
+
+    const since = request.nextUrl.searchParams.get("since") || "0000-01-01";
+    const until = request.nextUrl.searchParams.get("until") || "9999-12-31";
+    if (!DATE_PATTERN.test(since) || !DATE_PATTERN.test(until)) {
+      return NextResponse.json(
+        { error: "Invalid date format. Expected YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = authHeader.substring(7); // Remove "Bearer " prefix
+    const convex = getConvexClient();
+
+    const validation = await convex.query(api.apiKeys.validateApiKeyWithUser, { apiKey });
+    if (!validation) {
+      return NextResponse.json(
+        { error: "Invalid or revoked API key" },
+        { status: 401 }
+      );
+    }
+
+    const teamId = validation.user.slackTeamId;
+    const isSlackUser = !NON_SLACK_TEAMS.includes(teamId);
+
+    const [days, teamDays] = await Promise.all([
+      convex.query(api.sessions.getUserSessionsPerDay, {
+        userId: validation.userId as Id<"users">,
+        startDate: since,
+        endDate: until,
+      }),
+      isSlackUser
+        ? convex.query(api.sessions.getSessionsPerDay, { teamId, startDate: since, endDate: until })
+        : null,
+    ]);
+
+    return NextResponse.json({
+      username: validation.user.githubUsername || validation.user.displayName || "",
+      since,
+      until,
+      days,
+      team: teamDays ? { teamId, days: teamDays } : null,
+    });
+  } catch (error) {
+    console.error("Sessions per day error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -176,6 +176,7 @@ export async function POST(request: NextRequest) {
           slackUserId: string;
           totalTokens: number;
           totalCost: number;
+          costHidden: boolean;
         };
 
         let leaderboard: LeaderboardResult[];
@@ -199,6 +200,7 @@ export async function POST(request: NextRequest) {
             slackUserId: entry.slackUserId,
             totalTokens: entry.totalTokens,
             totalCost: entry.totalCost,
+            costHidden: entry.costHidden,
           })),
           period
         );
@@ -263,6 +265,7 @@ export async function POST(request: NextRequest) {
                 totalParticipants: totalParticipants,
                 totalTokens: stats.totalTokens,
                 totalCost: stats.totalCost,
+                costHidden: stats.costHidden,
                 inputTokens: stats.inputTokens,
                 outputTokens: stats.outputTokens,
                 cacheCreationTokens: stats.cacheCreationTokens,
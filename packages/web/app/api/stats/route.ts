@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getConvexClient } from "@/lib/convex";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Return everything the leaderboard stores about the authenticated user:
+ * one row per device and day, with its per-model breakdown.
+ * Used by `ccrank export --source remote`.
+ *
+ * Query parameters: since, until (YYYY-MM-DD, inclusive, both optional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json(
+        {
+          error: "Authentication required",
+          hint: "Include your API key in the Authorization header: -H 'Authorization: Bearer YOUR_API_KEY'"
+        },
+        { status: 401 }
+      );
+    }
+
+    const since = request.nextUrl.searchParams.get("since") || "0000-01-01";
+    const until = request.nextUrl.searchParams.get("until") || "9999-12-31";
+    if (!DATE_PATTERN.test(since) || !DATE_PATTERN.test(until)) {
+      return NextResponse.json(
+        { error: "Invalid date format. Expected YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const apiKey = authHeader.substring(7); // Remove "Bearer " prefix
+    const convex = getConvexClient();
+
+    const validation = await convex.query(api.apiKeys.validateApiKeyWithUser, { apiKey });
+    if (!validation) {
+      return NextResponse.json(
+        { error: "Invalid or revoked API key" },
+        { status: 401 }
+      );
+    }
+
+    const userId = validation.userId as Id<"users">;
+    const [days, models] = await Promise.all([
+      convex.query(api.stats.getUserStats, { userId, startDate: since, endDate: until }),
+      convex.query(api.stats.getUserDailyModelStats, { userId, startDate: since, endDate: until }),
+    ]);
+
+    // Model rows belong to the day uploaded by the same device
+    const modelsByDay = new Map<string, typeof models>();
+    for (const model of models) {
+      const key = `${model.deviceId ?? ""}:${model.date}`;
+      modelsByDay.set(key, [...(modelsByDay.get(key) || []), model]);
+    }
+
+    return NextResponse.json({
+      username: validation.user.githubUsername || validation.user.displayName || "",
+      since,
+      until,
+      days: days.map((day) => ({
+        date: day.date,
+        utcDate: day.utcDate,
+        timezoneOffset: day.timezoneOffset,
+        deviceId: day.deviceId,
+        inputTokens: day.inputTokens,
+        outputTokens: day.outputTokens,
+        cacheCreationTokens: day.cacheCreationTokens,
+        cacheReadTokens: day.cacheReadTokens,
+        totalTokens: day.totalTokens,
+        // Hidden costs are stored as 0; leave them out rather than report $0
+        totalCost: day.costHidden ? undefined : day.totalCost,
+        modelsUsed: day.modelsUsed,
+        modelBreakdowns: (modelsByDay.get(`${day.deviceId ?? ""}:${day.date}`) || []).map((model) => ({
+          modelName: model.modelName,
+          inputTokens: model.inputTokens,
+          outputTokens: model.outputTokens,
+          cacheCreationTokens: model.cacheCreationTokens,
+          cacheReadTokens: model.cacheReadTokens,
+          cost: model.costHidden ? undefined : model.cost,
+        })),
+        updatedAt: new Date(day.updatedAt).toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error("Stats export error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
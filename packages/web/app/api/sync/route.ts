@@ -2,6 +2,25 @@ import { NextRequest, NextResponse } from "next/server";
 import { getConvexClient } from "@/lib/convex";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
+import { isValidTimeZone, getTimeZoneOffset, localDateToUtcDate, parseOffset } from "@/lib/timezone";
+
+interface ModelBreakdownEntry {
+  modelName: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  cost?: number; // Omitted when the uploader hides costs
+}
+
+interface ProjectBreakdownEntry {
+  project: string; // Alias or salted hash chosen on the client
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  cost?: number; // Omitted when the uploader hides costs
+}
 
 interface StatsEntry {
   date: string; // User's local date (YYYY-MM-DD)
@@ -12,15 +31,24 @@ interface StatsEntry {
   cacheCreationTokens: number;
   cacheReadTokens: number;
   totalTokens: number;
-  totalCost: number;
+  totalCost?: number; // Omitted when the uploader hides costs
   modelsUsed: string[];
+  modelBreakdowns?: ModelBreakdownEntry[];
+  projectBreakdowns?: ProjectBreakdownEntry[];
 }
 
 interface SyncRequestBody {
   daily?: StatsEntry[];
   entries?: StatsEntry[];
+  partial?: boolean; // Only replace the dates included in this upload
+  deviceId?: string; // Stable CLI device ID; scopes replacement to this device
+  timeZone?: string; // IANA zone the entry dates are local to (e.g. "Europe/Berlin")
 }
 
+// Project labels are aliases or hashes; anything path-like is rejected
+const PROJECT_LABEL_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+const MAX_PROJECTS_PER_DAY = 200;
+
 // Maximum reasonable values for validation
 const MAX_DAILY_TOKENS = 1_000_000_000; // 1B tokens per day
 const MAX_DAILY_COST = 100_000; // $100,000 per day
@@ -29,10 +57,13 @@ const MAX_DAILY_COST = 100_000; // $100,000 per day
  * Validate a single stats entry
  */
 function validateStatsEntry(entry: StatsEntry): { valid: boolean; error?: string } {
+  // A missing (or null) cost means the uploader hid it
+  const totalCost = entry.totalCost ?? 0;
+
   // Check for negative values
   if (entry.inputTokens < 0 || entry.outputTokens < 0 ||
       entry.cacheCreationTokens < 0 || entry.cacheReadTokens < 0 ||
-      entry.totalTokens < 0 || entry.totalCost < 0) {
+      entry.totalTokens < 0 || totalCost < 0) {
     return { valid: false, error: "Token counts and costs cannot be negative" };
   }
 
@@ -41,15 +72,47 @@ function validateStatsEntry(entry: StatsEntry): { valid: boolean; error?: string
     return { valid: false, error: `Total tokens exceeds maximum allowed (${MAX_DAILY_TOKENS})` };
   }
 
-  if (entry.totalCost > MAX_DAILY_COST) {
+  if (totalCost > MAX_DAILY_COST) {
     return { valid: false, error: `Total cost exceeds maximum allowed ($${MAX_DAILY_COST})` };
   }
 
   // Check for NaN or Infinity
-  if (!Number.isFinite(entry.totalTokens) || !Number.isFinite(entry.totalCost)) {
+  if (!Number.isFinite(entry.totalTokens) || !Number.isFinite(totalCost)) {
     return { valid: false, error: "Token counts and costs must be finite numbers" };
   }
 
+  // Validate per-model breakdowns if provided
+  if (entry.modelBreakdowns !== undefined) {
+    if (!Array.isArray(entry.modelBreakdowns)) {
+      return { valid: false, error: "modelBreakdowns must be an array" };
+    }
+    for (const model of entry.modelBreakdowns) {
+      if (!model || typeof model.modelName !== "string" || model.modelName.length === 0) {
+        return { valid: false, error: "Each model breakdown must have a modelName" };
+      }
+      const values = [model.inputTokens, model.outputTokens, model.cacheCreationTokens, model.cacheReadTokens, model.cost ?? 0];
+      if (values.some((value) => typeof value !== "number" || !Number.isFinite(value) || value < 0)) {
+        return { valid: false, error: `Invalid token counts or cost for model ${model.modelName}` };
+      }
+    }
+  }
+
+  // Validate per-project breakdowns if provided
+  if (entry.projectBreakdowns !== undefined) {
+    if (!Array.isArray(entry.projectBreakdowns) || entry.projectBreakdowns.length > MAX_PROJECTS_PER_DAY) {
+      return { valid: false, error: `projectBreakdowns must be an array of at most ${MAX_PROJECTS_PER_DAY} projects` };
+    }
+    for (const project of entry.projectBreakdowns) {
+      if (!project || typeof project.project !== "string" || !PROJECT_LABEL_PATTERN.test(project.project)) {
+        return { valid: false, error: "Each project breakdown needs a label of 1-64 letters, digits, '.', '-' or '_' (not a path)" };
+      }
+      const values = [project.inputTokens, project.outputTokens, project.cacheCreationTokens, project.cacheReadTokens, project.cost ?? 0];
+      if (values.some((value) => typeof value !== "number" || !Number.isFinite(value) || value < 0)) {
+        return { valid: false, error: `Invalid token counts or cost for project ${project.project}` };
+      }
+    }
+  }
+
   return { valid: true };
 }
 
@@ -78,26 +141,6 @@ function validateUsername(username: string): { valid: boolean; error?: string }
   return { valid: true };
 }
 
-/**
- * Convert a local date string to UTC date string given a timezone offset.
- * @param localDate - Date in YYYY-MM-DD format (user's local date)
- * @param tzOffset - Timezone offset string like "+0800" or "-0500"
- */
-function localDateToUtcDate(localDate: string, tzOffset: string): string {
-  const [year, month, day] = localDate.split("-").map(Number);
-  // Parse timezone offset (e.g., "+0800" -> +480 minutes, "-0500" -> -300 minutes)
-  const sign = tzOffset.startsWith("-") ? -1 : 1;
-  const hours = parseInt(tzOffset.slice(-4, -2), 10);
-  const minutes = parseInt(tzOffset.slice(-2), 10);
-  const offsetMinutes = sign * (hours * 60 + minutes);
-
-  // Create date at noon local time to avoid DST edge cases
-  const localDateTime = new Date(Date.UTC(year, month - 1, day, 12, 0, 0));
-  // Subtract offset to get UTC (offset is minutes ahead of UTC)
-  localDateTime.setUTCMinutes(localDateTime.getUTCMinutes() - offsetMinutes);
-  return localDateTime.toISOString().split("T")[0];
-}
-
 export async function POST(request: NextRequest) {
   try {
     // Require API key authentication
@@ -152,7 +195,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get optional timezone offset (e.g., "+0800", "-0500")
+    // Get optional fixed timezone offset (e.g., "+0800", "-0500") for curl uploads
     const tzOffset = request.nextUrl.searchParams.get("tz");
 
     // Parse request body - read raw text first for better error messages
@@ -217,6 +260,19 @@ export async function POST(request: NextRequest) {
     const entries = body.daily || body.entries;
 
     if (!entries || !Array.isArray(entries)) {
+      // Other ccusage reports can't be stored: rankings are built from daily totals
+      const otherReport = (["weekly", "monthly", "sessions", "blocks"] as const).find(
+        (key) => Array.isArray((body as Record<string, unknown>)[key])
+      );
+      if (otherReport) {
+        return NextResponse.json(
+          {
+            error: `Unsupported ccusage report: '${otherReport}'`,
+            hint: "Only daily reports can be synced (weekly and monthly rankings are built from daily totals). Use 'npx ccusage@latest daily --json'.",
+          },
+          { status: 400 }
+        );
+      }
       return NextResponse.json(
         { error: "Missing or invalid 'daily' or 'entries' array" },
         { status: 400 }
@@ -228,6 +284,7 @@ export async function POST(request: NextRequest) {
         success: true,
         message: "No entries to sync",
         count: 0,
+        username,
       });
     }
 
@@ -256,26 +313,41 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Validate optional device ID
+    const deviceId = body.deviceId;
+    if (deviceId !== undefined && (typeof deviceId !== "string" || !/^[A-Za-z0-9_-]{1,64}$/.test(deviceId))) {
+      return NextResponse.json(
+        { error: "Invalid deviceId. Expected 1-64 alphanumeric, '-' or '_' characters." },
+        { status: 400 }
+      );
+    }
+
+    // Validate optional IANA time zone
+    if (body.timeZone !== undefined && (typeof body.timeZone !== "string" || !isValidTimeZone(body.timeZone))) {
+      return NextResponse.json(
+        { error: "Invalid timeZone. Expected an IANA time zone name like 'America/Los_Angeles'." },
+        { status: 400 }
+      );
+    }
+
     // Use the already-authenticated user ID
     const userId = validation.userId as Id<"users">;
 
     // Parse timezone offset to minutes if provided
-    let timezoneOffsetMinutes: number | undefined;
-    if (tzOffset) {
-      const sign = tzOffset.startsWith("-") ? -1 : 1;
-      const hours = parseInt(tzOffset.slice(-4, -2), 10);
-      const minutes = parseInt(tzOffset.slice(-2), 10);
-      timezoneOffsetMinutes = sign * (hours * 60 + minutes);
-    }
+    const timezoneOffsetMinutes = tzOffset ? parseOffset(tzOffset) : undefined;
 
     // Format entries for the Convex mutation
     const statsEntries = entries.map((entry) => {
-      // Compute utcDate if not provided but we have timezone info
       let utcDate = entry.utcDate;
       let timezoneOffset = entry.timezoneOffset;
 
-      if (!utcDate && tzOffset) {
-        utcDate = localDateToUtcDate(entry.date, tzOffset);
+      if (body.timeZone) {
+        // A zone name is authoritative: use the offset that applied on each date
+        timezoneOffset = getTimeZoneOffset(entry.date, body.timeZone);
+        utcDate = localDateToUtcDate(entry.date, timezoneOffset);
+      } else if (!utcDate && timezoneOffsetMinutes !== undefined) {
+        // A fixed offset from the tz param is only a fallback for the whole batch
+        utcDate = localDateToUtcDate(entry.date, timezoneOffsetMinutes);
         timezoneOffset = timezoneOffsetMinutes;
       }
 
@@ -288,8 +360,24 @@ export async function POST(request: NextRequest) {
         cacheCreationTokens: entry.cacheCreationTokens || 0,
         cacheReadTokens: entry.cacheReadTokens || 0,
         totalTokens: entry.totalTokens || 0,
-        totalCost: entry.totalCost || 0,
+        totalCost: entry.totalCost ?? undefined,
         modelsUsed: entry.modelsUsed || [],
+        modelBreakdowns: entry.modelBreakdowns?.map((model) => ({
+          modelName: model.modelName,
+          inputTokens: model.inputTokens,
+          outputTokens: model.outputTokens,
+          cacheCreationTokens: model.cacheCreationTokens,
+          cacheReadTokens: model.cacheReadTokens,
+          cost: model.cost ?? undefined,
+        })),
+        projectBreakdowns: entry.projectBreakdowns?.map((project) => ({
+          project: project.project,
+          inputTokens: project.inputTokens,
+          outputTokens: project.outputTokens,
+          cacheCreationTokens: project.cacheCreationTokens,
+          cacheReadTokens: project.cacheReadTokens,
+          cost: project.cost ?? undefined,
+        })),
       };
     });
 
@@ -297,6 +385,8 @@ export async function POST(request: NextRequest) {
     const result = await convex.mutation(api.stats.batchRecordStats, {
       userId: userId as Id<"users">,
       stats: statsEntries,
+      partial: body.partial === true,
+      deviceId,
     });
 
     return NextResponse.json({
@@ -304,6 +394,7 @@ export async function POST(request: NextRequest) {
       message: `Synced ${result.inserted} entries for ${username} (replaced ${result.deleted} existing)`,
       count: result.inserted,
       deleted: result.deleted,
+      username,
     });
   } catch (error) {
     console.error("Sync error:", error);
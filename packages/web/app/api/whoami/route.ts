@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getConvexClient } from "@/lib/convex";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+
+// Pseudo teams of users who signed in without Slack
+const NON_SLACK_TEAMS = ["github", "web"];
+
+const PERIODS = ["daily", "weekly", "monthly", "allTime"] as const;
+
+/**
+ * Describe the authenticated user: linked identities, the API key, what the
+ * server holds and the current rank for each period.
+ * Used by `ccrank whoami` and `ccrank status --remote`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return NextResponse.json(
+        {
+          error: "Authentication required",
+          hint: "Include your API key in the Authorization header: -H 'Authorization: Bearer YOUR_API_KEY'"
+        },
+        { status: 401 }
+      );
+    }
+
+    const apiKey = authHeader.substring(7); // Remove "Bearer " prefix
+    const convex = getConvexClient();
+
+    const validation = await convex.query(api.apiKeys.validateApiKeyWithUser, { apiKey });
+    if (!validation) {
+      return NextResponse.json(
+        { error: "Invalid or revoked API key" },
+        { status: 401 }
+      );
+    }
+
+    const userId = validation.userId as Id<"users">;
+    const { user } = validation;
+    const isSlackUser = !NON_SLACK_TEAMS.includes(user.slackTeamId);
+
+    const [days, workspace, ...ranks] = await Promise.all([
+      convex.query(api.stats.getUserStats, { userId, startDate: "0000-01-01", endDate: "9999-12-31" }),
+      isSlackUser ? convex.query(api.slack.getWorkspace, { teamId: user.slackTeamId }) : null,
+      ...PERIODS.map((period) => convex.query(api.leaderboard.getUserRank, { userId, period })),
+    ]);
+
+    // Several devices can upload the same date; count dates once
+    const dates = Array.from(new Set(days.map((day) => day.date))).sort();
+    const updatedAt = days.reduce((latest, day) => Math.max(latest, day.updatedAt), 0);
+
+    return NextResponse.json({
+      username: user.githubUsername || user.displayName || "",
+      github: user.githubUsername ? { username: user.githubUsername } : null,
+      slack: isSlackUser
+        ? { userId: user.slackUserId, teamId: user.slackTeamId, teamName: workspace?.teamName }
+        : null,
+      memberSince: new Date(user.createdAt).toISOString(),
+      apiKey: {
+        prefix: validation.keyPrefix,
+        createdAt: new Date(validation.keyCreatedAt).toISOString(),
+      },
+      server: {
+        days: dates.length,
+        devices: new Set(days.map((day) => day.deviceId).filter(Boolean)).size,
+        firstDate: dates[0] ?? null,
+        lastDate: dates[dates.length - 1] ?? null,
+        updatedAt: updatedAt ? new Date(updatedAt).toISOString() : null,
+      },
+      ranks: Object.fromEntries(PERIODS.map((period, index) => [
+        period,
+        { rank: ranks[index]?.rank ?? null, totalParticipants: ranks[index]?.totalParticipants ?? 0 },
+      ])),
+    });
+  } catch (error) {
+    console.error("Whoami error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
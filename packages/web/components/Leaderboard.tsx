@@ -11,6 +11,7 @@ interface LeaderboardEntry {
   slackUserId: string;
   totalTokens: number;
   totalCost: number;
+  costHidden?: boolean;
   hasReport?: boolean;
   lastSyncedAt?: number | null;
 }
@@ -237,6 +238,7 @@ function LeaderboardContent({
         slackUserId: string;
         totalTokens: number;
         totalCost: number;
+        costHidden?: boolean;
         hasReport?: boolean;
         lastSyncedAt?: number | null;
       }[]
@@ -325,11 +327,17 @@ function LeaderboardContent({
                 </span>
               </div>
 
-              {/* Cost */}
+              {/* Cost (withheld by the user's privacy settings when hidden) */}
               <div className="w-24 text-right">
-                <span className="font-mono text-sm font-semibold text-black">
-                  {formatCost(entry.totalCost)}
-                </span>
+                {entry.costHidden ? (
+                  <span className="font-mono text-sm text-gray-400" title="This user doesn't share costs">
+                    hidden
+                  </span>
+                ) : (
+                  <span className="font-mono text-sm font-semibold text-black">
+                    {formatCost(entry.totalCost)}
+                  </span>
+                )}
               </div>
 
               {/* Last Synced */}
@@ -9,8 +9,10 @@
  */
 
 import type * as apiKeys from "../apiKeys.js";
+import type * as deviceCodes from "../deviceCodes.js";
 import type * as insightsReports from "../insightsReports.js";
 import type * as leaderboard from "../leaderboard.js";
+import type * as sessions from "../sessions.js";
 import type * as slack from "../slack.js";
 import type * as stats from "../stats.js";
 import type * as users from "../users.js";
@@ -23,8 +25,10 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   apiKeys: typeof apiKeys;
+  deviceCodes: typeof deviceCodes;
   insightsReports: typeof insightsReports;
   leaderboard: typeof leaderboard;
+  sessions: typeof sessions;
   slack: typeof slack;
   stats: typeof stats;
   users: typeof users;
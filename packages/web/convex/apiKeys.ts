@@ -1,6 +1,43 @@
-import { mutation, query } from "./_generated/server";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
 import { v } from "convex/values";
 
+/**
+ * Create and store a random API key for a user.
+ * Only the key's hash and prefix are stored; the full key is returned once.
+ */
+async function mintApiKey(ctx: MutationCtx, userId: Id<"users">, createdAt: number) {
+  // Generate a random API key
+  const keyBytes = new Uint8Array(32);
+  crypto.getRandomValues(keyBytes);
+  const fullKey = Array.from(keyBytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+  // Create key prefix for identification (first 8 chars)
+  const keyPrefix = fullKey.substring(0, 8);
+
+  // Hash the key for storage
+  const encoder = new TextEncoder();
+  const data = encoder.encode(fullKey);
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  const keyHash = hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+
+  const keyId = await ctx.db.insert("apiKeys", {
+    userId,
+    keyHash,
+    keyPrefix,
+    createdAt,
+  });
+
+  return {
+    keyId,
+    apiKey: `ccrank_${fullKey}`,
+    keyPrefix,
+  };
+}
+
 /**
  * Generate a new API key for a user.
  * Returns the full key only once - store it securely!
@@ -11,23 +48,6 @@ export const generateApiKey = mutation({
     userId: v.id("users"),
   },
   handler: async (ctx, args) => {
-    // Generate a random API key
-    const keyBytes = new Uint8Array(32);
-    crypto.getRandomValues(keyBytes);
-    const fullKey = Array.from(keyBytes)
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("");
-
-    // Create key prefix for identification (first 8 chars)
-    const keyPrefix = fullKey.substring(0, 8);
-
-    // Hash the key for storage
-    const encoder = new TextEncoder();
-    const data = encoder.encode(fullKey);
-    const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const keyHash = hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
-
     // Revoke any existing active keys for this user
     const existingKeys = await ctx.db
       .query("apiKeys")
@@ -41,20 +61,22 @@ export const generateApiKey = mutation({
       }
     }
 
-    // Create new API key record
-    const keyId = await ctx.db.insert("apiKeys", {
-      userId: args.userId,
-      keyHash,
-      keyPrefix,
-      createdAt: now,
-    });
-
     // Return the full key - this is the only time it's available!
-    return {
-      keyId,
-      apiKey: `ccrank_${fullKey}`,
-      keyPrefix,
-    };
+    return mintApiKey(ctx, args.userId, now);
+  },
+});
+
+/**
+ * Generate an extra API key for a user without revoking the others.
+ * Used by device-code logins, so signing in on one machine leaves the
+ * keys of the user's other machines working.
+ */
+export const generateDeviceApiKey = mutation({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    return mintApiKey(ctx, args.userId, Date.now());
   },
 });
 
@@ -172,9 +194,13 @@ export const validateApiKeyWithUser = query({
     return {
       userId: apiKey.userId,
       keyPrefix: apiKey.keyPrefix,
+      keyCreatedAt: apiKey.createdAt,
       user: {
         githubUsername: user.githubUsername,
         displayName: user.displayName,
+        slackUserId: user.slackUserId,
+        slackTeamId: user.slackTeamId,
+        createdAt: user.createdAt,
       },
     };
   },
@@ -205,6 +231,44 @@ export const revokeApiKey = mutation({
   },
 });
 
+/**
+ * Revoke an API key given its full value.
+ * Lets a client revoke its own key without knowing the key ID.
+ */
+export const revokeApiKeyByValue = mutation({
+  args: {
+    apiKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    // Remove the ccrank_ prefix if present
+    const keyValue = args.apiKey.startsWith("ccrank_")
+      ? args.apiKey.substring(7)
+      : args.apiKey;
+
+    // Hash the provided key
+    const encoder = new TextEncoder();
+    const data = encoder.encode(keyValue);
+    const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+    const hashArray = Array.from(new Uint8Array(hashBuffer));
+    const keyHash = hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+
+    const apiKey = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_hash", (q) => q.eq("keyHash", keyHash))
+      .first();
+
+    if (!apiKey || apiKey.revokedAt) {
+      return null;
+    }
+
+    await ctx.db.patch(apiKey._id, {
+      revokedAt: Date.now(),
+    });
+
+    return { keyPrefix: apiKey.keyPrefix };
+  },
+});
+
 /**
  * Get active API key for a user.
  */
@@ -0,0 +1,186 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+// Device codes expire after 10 minutes; the CLI polls every 5 seconds
+const DEVICE_CODE_TTL_MS = 10 * 60 * 1000;
+const POLL_INTERVAL_SECONDS = 5;
+
+// Unambiguous characters for user codes (no vowels, no 0/O or 1/I)
+const USER_CODE_ALPHABET = "BCDFGHJKLMNPQRSTVWXZ";
+
+/**
+ * Hash a device code for storage and lookup.
+ */
+async function hashDeviceCode(deviceCode: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const data = encoder.encode(deviceCode);
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Normalize user input like "bcdf ghjk" to the stored "BCDF-GHJK" form.
+ */
+function normalizeUserCode(userCode: string): string {
+  const compact = userCode.toUpperCase().replace(/[^A-Z]/g, "");
+  return `${compact.slice(0, 4)}-${compact.slice(4, 8)}`;
+}
+
+/**
+ * Start a device-code login.
+ * Returns the secret device code (only once) and the short user code.
+ */
+export const createDeviceCode = mutation({
+  args: {},
+  handler: async (ctx) => {
+    // Generate the secret device code the CLI polls with
+    const codeBytes = new Uint8Array(32);
+    crypto.getRandomValues(codeBytes);
+    const deviceCode = Array.from(codeBytes)
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("");
+
+    // Generate a short user code, retrying on the unlikely collision
+    let userCode = "";
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const userBytes = new Uint8Array(8);
+      crypto.getRandomValues(userBytes);
+      const chars = Array.from(userBytes).map(
+        (b) => USER_CODE_ALPHABET[b % USER_CODE_ALPHABET.length]
+      );
+      const candidate = `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`;
+      const existing = await ctx.db
+        .query("deviceCodes")
+        .withIndex("by_user_code", (q) => q.eq("userCode", candidate))
+        .first();
+      if (!existing || existing.expiresAt < Date.now()) {
+        userCode = candidate;
+        break;
+      }
+    }
+    if (!userCode) {
+      throw new Error("Failed to generate a unique user code");
+    }
+
+    const now = Date.now();
+    await ctx.db.insert("deviceCodes", {
+      deviceCodeHash: await hashDeviceCode(deviceCode),
+      userCode,
+      status: "pending",
+      createdAt: now,
+      expiresAt: now + DEVICE_CODE_TTL_MS,
+    });
+
+    return {
+      deviceCode,
+      userCode,
+      expiresIn: DEVICE_CODE_TTL_MS / 1000,
+      interval: POLL_INTERVAL_SECONDS,
+    };
+  },
+});
+
+/**
+ * Look up a pending login by user code (for the /activate page).
+ */
+export const getDeviceCodeStatus = query({
+  args: {
+    userCode: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const record = await ctx.db
+      .query("deviceCodes")
+      .withIndex("by_user_code", (q) => q.eq("userCode", normalizeUserCode(args.userCode)))
+      .order("desc")
+      .first();
+
+    if (!record) {
+      return null;
+    }
+
+    return {
+      userCode: record.userCode,
+      status: record.expiresAt < Date.now() && record.status === "pending" ? "expired" : record.status,
+      expiresAt: record.expiresAt,
+    };
+  },
+});
+
+/**
+ * Approve or deny a pending login on behalf of a signed-in user.
+ */
+export const resolveDeviceCode = mutation({
+  args: {
+    userCode: v.string(),
+    userId: v.id("users"),
+    approve: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const record = await ctx.db
+      .query("deviceCodes")
+      .withIndex("by_user_code", (q) => q.eq("userCode", normalizeUserCode(args.userCode)))
+      .order("desc")
+      .first();
+
+    if (!record) {
+      return { success: false, error: "Unknown code. Check the code shown in your terminal." };
+    }
+    if (record.expiresAt < Date.now()) {
+      return { success: false, error: "This code has expired. Run `ccrank login` again." };
+    }
+    if (record.status !== "pending") {
+      return { success: false, error: "This code has already been used." };
+    }
+
+    await ctx.db.patch(record._id, {
+      status: args.approve ? "approved" : "denied",
+      userId: args.approve ? args.userId : undefined,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Poll a login from the CLI.
+ * An approved code is consumed on the first successful poll, so the caller
+ * must mint the API key for the returned userId right away.
+ */
+export const pollDeviceCode = mutation({
+  args: {
+    deviceCode: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const deviceCodeHash = await hashDeviceCode(args.deviceCode);
+    const record = await ctx.db
+      .query("deviceCodes")
+      .withIndex("by_device_code_hash", (q) => q.eq("deviceCodeHash", deviceCodeHash))
+      .first();
+
+    if (!record || record.status === "consumed") {
+      return { status: "expired" as const };
+    }
+
+    const now = Date.now();
+    if (record.expiresAt < now) {
+      return { status: "expired" as const };
+    }
+    if (record.status === "denied") {
+      return { status: "denied" as const };
+    }
+
+    if (record.status === "pending") {
+      // Clients polling faster than the advertised interval are asked to back off
+      const tooFast =
+        record.lastPolledAt !== undefined &&
+        now - record.lastPolledAt < (POLL_INTERVAL_SECONDS * 1000) / 2;
+      await ctx.db.patch(record._id, { lastPolledAt: now });
+      return { status: tooFast ? ("slow_down" as const) : ("pending" as const) };
+    }
+
+    // Approved: hand out the user exactly once
+    await ctx.db.patch(record._id, { status: "consumed", lastPolledAt: now });
+    return { status: "approved" as const, userId: record.userId! };
+  },
+});
@@ -13,6 +13,7 @@ type LeaderboardEntry = {
   cacheReadTokens: number;
   totalTokens: number;
   totalCost: number;
+  costHidden: boolean; // Some of the user's costs were withheld, so totalCost is incomplete
   modelsUsed: string[];
   rank: number;
   rankChange: number | "new" | null;
@@ -109,7 +110,7 @@ async function buildLeaderboardFromStats(
     return effectiveDate >= startDate && effectiveDate <= endDate;
   });
 
-  // Group stats by userId and aggregate
+  // Group stats by userId and aggregate (a user's rows from every device are summed)
   const userAggregates = new Map<
     Id<"users">,
     {
@@ -119,6 +120,7 @@ async function buildLeaderboardFromStats(
       cacheReadTokens: number;
       totalTokens: number;
       totalCost: number;
+      costHidden: boolean;
       modelsUsed: Set<string>;
       lastSyncedAt: number;
     }
@@ -133,6 +135,7 @@ async function buildLeaderboardFromStats(
       existing.cacheReadTokens += stat.cacheReadTokens;
       existing.totalTokens += stat.totalTokens;
       existing.totalCost += stat.totalCost;
+      existing.costHidden ||= stat.costHidden === true;
       for (const model of stat.modelsUsed) {
         existing.modelsUsed.add(model);
       }
@@ -147,6 +150,7 @@ async function buildLeaderboardFromStats(
         cacheReadTokens: stat.cacheReadTokens,
         totalTokens: stat.totalTokens,
         totalCost: stat.totalCost,
+        costHidden: stat.costHidden === true,
         modelsUsed: new Set(stat.modelsUsed),
         lastSyncedAt: stat.updatedAt,
       });
@@ -181,6 +185,7 @@ async function buildLeaderboardFromStats(
       cacheReadTokens: aggregate.cacheReadTokens,
       totalTokens: aggregate.totalTokens,
       totalCost: aggregate.totalCost,
+      costHidden: aggregate.costHidden,
       modelsUsed: Array.from(aggregate.modelsUsed),
       rank: 0, // Will be set after sorting
       rankChange: null, // Will be set by computeRankChanges
@@ -188,7 +193,7 @@ async function buildLeaderboardFromStats(
     });
   }
 
-  // Sort by total cost (descending)
+  // Sort by total cost (descending); hidden costs count as $0
   leaderboard.sort((a, b) => b.totalCost - a.totalCost);
 
   // Assign ranks
@@ -306,6 +311,7 @@ function computeStatsSummary(
 /**
  * Combined query for the main page: returns both stats summary and leaderboard
  * in a single DB scan, avoiding redundant fetchAllStats calls.
+ * With teamId, both are limited to that Slack team.
  */
 export const getPageData = query({
   args: {
@@ -316,6 +322,7 @@ export const getPageData = query({
       v.literal("alltime")
     ),
     limit: v.optional(v.number()),
+    teamId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     // Single DB scan for all stats
@@ -323,29 +330,38 @@ export const getPageData = query({
 
     const ranges = getPeriodDateRanges(args.period);
 
-    // Build stats summary from the fetched data
-    const statsSummary = computeStatsSummary(
-      allStats,
-      ranges.currentStart,
-      ranges.currentEnd,
-      args.period
-    );
-
     // Build current period leaderboard
     const current = await buildLeaderboardFromStats(
       ctx,
       allStats,
       ranges.currentStart,
-      ranges.currentEnd
+      ranges.currentEnd,
+      args.teamId
     );
 
+    // Build stats summary from the fetched data (a team's from its leaderboard)
+    const statsSummary = args.teamId
+      ? {
+          totalTokens: current.reduce((sum, entry) => sum + entry.totalTokens, 0),
+          totalCost: current.reduce((sum, entry) => sum + entry.totalCost, 0),
+          totalUsers: current.length,
+          period: args.period,
+        }
+      : computeStatsSummary(
+          allStats,
+          ranges.currentStart,
+          ranges.currentEnd,
+          args.period
+        );
+
     // Compute rank changes if there's a previous period
     if (ranges.hasPrevious) {
       const previous = await buildLeaderboardFromStats(
         ctx,
         allStats,
         ranges.previousStart,
-        ranges.previousEnd
+        ranges.previousEnd,
+        args.teamId
       );
       computeRankChanges(current, previous);
     }
@@ -529,6 +545,7 @@ export const getUserRank = query({
         cacheReadTokens: userEntry.cacheReadTokens,
         totalTokens: userEntry.totalTokens,
         totalCost: userEntry.totalCost,
+        costHidden: userEntry.costHidden,
         modelsUsed: userEntry.modelsUsed,
       },
     };
@@ -885,3 +902,108 @@ export const getStatsSummary = query({
     return computeStatsSummary(allStats, startDate, endDate, args.period);
   },
 });
+
+// Helper to map a model name to its family for spend comparisons
+function getModelFamily(modelName: string): "opus" | "sonnet" | "haiku" | "other" {
+  const name = modelName.toLowerCase();
+  if (name.includes("opus")) return "opus";
+  if (name.includes("sonnet")) return "sonnet";
+  if (name.includes("haiku")) return "haiku";
+  return "other";
+}
+
+/**
+ * Get spend broken down by model for a period, optionally scoped to a team
+ * or a single user. Answers "how much of our spend is Opus vs Sonnet".
+ */
+export const getModelUsage = query({
+  args: {
+    period: v.union(
+      v.literal("daily"),
+      v.literal("weekly"),
+      v.literal("monthly"),
+      v.literal("alltime")
+    ),
+    teamId: v.optional(v.string()),
+    userId: v.optional(v.id("users")),
+  },
+  handler: async (ctx, args) => {
+    const ranges = getPeriodDateRanges(args.period);
+
+    const allModelStats = args.userId
+      ? await ctx.db
+          .query("dailyModelStats")
+          .withIndex("by_user", (q) => q.eq("userId", args.userId!))
+          .collect()
+      : await ctx.db.query("dailyModelStats").collect();
+
+    const filteredStats = allModelStats.filter((s) => {
+      const effectiveDate = s.utcDate ?? s.date;
+      return effectiveDate >= ranges.currentStart && effectiveDate <= ranges.currentEnd;
+    });
+
+    // Resolve team membership with batched user lookups
+    let allowedUsers: Set<Id<"users">> | null = null;
+    if (args.teamId) {
+      const userIds = Array.from(new Set(filteredStats.map((s) => s.userId)));
+      const users = await Promise.all(userIds.map((id) => ctx.db.get(id)));
+      allowedUsers = new Set(
+        userIds.filter((_, i) => users[i]?.slackTeamId === args.teamId)
+      );
+    }
+
+    const byModel = new Map<
+      string,
+      {
+        modelName: string;
+        family: "opus" | "sonnet" | "haiku" | "other";
+        inputTokens: number;
+        outputTokens: number;
+        cacheCreationTokens: number;
+        cacheReadTokens: number;
+        cost: number;
+        users: Set<string>;
+      }
+    >();
+
+    for (const stat of filteredStats) {
+      if (allowedUsers && !allowedUsers.has(stat.userId)) continue;
+
+      const existing = byModel.get(stat.modelName);
+      if (existing) {
+        existing.inputTokens += stat.inputTokens;
+        existing.outputTokens += stat.outputTokens;
+        existing.cacheCreationTokens += stat.cacheCreationTokens;
+        existing.cacheReadTokens += stat.cacheReadTokens;
+        existing.cost += stat.cost;
+        existing.users.add(stat.userId);
+      } else {
+        byModel.set(stat.modelName, {
+          modelName: stat.modelName,
+          family: getModelFamily(stat.modelName),
+          inputTokens: stat.inputTokens,
+          outputTokens: stat.outputTokens,
+          cacheCreationTokens: stat.cacheCreationTokens,
+          cacheReadTokens: stat.cacheReadTokens,
+          cost: stat.cost,
+          users: new Set([stat.userId]),
+        });
+      }
+    }
+
+    const models = Array.from(byModel.values())
+      .map(({ users, ...model }) => ({ ...model, activeUsers: users.size }))
+      .sort((a, b) => b.cost - a.cost);
+
+    // Roll models up into families
+    const familyTotals = new Map<string, number>();
+    for (const model of models) {
+      familyTotals.set(model.family, (familyTotals.get(model.family) ?? 0) + model.cost);
+    }
+    const families = Array.from(familyTotals.entries())
+      .map(([family, cost]) => ({ family, cost }))
+      .sort((a, b) => b.cost - a.cost);
+
+    return { period: args.period, models, families };
+  },
+});
@@ -21,21 +21,90 @@ export default defineSchema({
     date: v.string(), // YYYY-MM-DD format (user's local timezone, for display)
     utcDate: v.optional(v.string()), // YYYY-MM-DD format (UTC, for accurate comparisons)
     timezoneOffset: v.optional(v.number()), // Minutes offset from UTC (e.g., -480 for PST)
+    deviceId: v.optional(v.string()), // CLI device that uploaded this row (unset for legacy rows)
     inputTokens: v.number(),
     outputTokens: v.number(),
     cacheCreationTokens: v.number(),
     cacheReadTokens: v.number(),
     totalTokens: v.number(),
-    totalCost: v.number(),
+    totalCost: v.number(), // 0 when costHidden
+    costHidden: v.optional(v.boolean()), // Cost withheld by the uploader's privacy settings
     modelsUsed: v.array(v.string()),
     updatedAt: v.number(),
   })
     .index("by_user_date", ["userId", "date"])
+    .index("by_user_device_date", ["userId", "deviceId", "date"])
     .index("by_user_utc_date", ["userId", "utcDate"])
     .index("by_date", ["date"])
     .index("by_utc_date", ["utcDate"])
     .index("by_user", ["userId"]),
 
+  // Per-model usage breakdown for each user and day
+  dailyModelStats: defineTable({
+    userId: v.id("users"),
+    date: v.string(), // YYYY-MM-DD format (user's local timezone, matches dailyStats.date)
+    utcDate: v.optional(v.string()), // YYYY-MM-DD format (UTC, for accurate comparisons)
+    deviceId: v.optional(v.string()), // CLI device that uploaded this row (matches dailyStats.deviceId)
+    modelName: v.string(), // e.g. "claude-sonnet-4-5-20250929"
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    cacheCreationTokens: v.number(),
+    cacheReadTokens: v.number(),
+    cost: v.number(), // 0 when costHidden
+    costHidden: v.optional(v.boolean()), // Cost withheld by the uploader's privacy settings
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_date", ["userId", "date"])
+    .index("by_utc_date", ["utcDate"])
+    .index("by_model", ["modelName"]),
+
+  // Per-project usage for each user and day, labelled by alias or salted hash on the client
+  dailyProjectStats: defineTable({
+    userId: v.id("users"),
+    date: v.string(), // YYYY-MM-DD format (user's local timezone, matches dailyStats.date)
+    utcDate: v.optional(v.string()), // YYYY-MM-DD format (UTC, for accurate comparisons)
+    deviceId: v.optional(v.string()), // CLI device that uploaded this row (matches dailyStats.deviceId)
+    project: v.string(), // Alias (e.g. "api"), "p-<hash>", or "other"
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    cacheCreationTokens: v.number(),
+    cacheReadTokens: v.number(),
+    cost: v.number(), // 0 when costHidden
+    costHidden: v.optional(v.boolean()), // Cost withheld by the uploader's privacy settings
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_date", ["userId", "date"])
+    .index("by_utc_date", ["utcDate"])
+    .index("by_project", ["project"]),
+
+  // Individual Claude Code sessions, uploaded by the CLI's SessionEnd hook
+  sessions: defineTable({
+    userId: v.id("users"),
+    sessionId: v.string(), // Claude Code session ID
+    deviceId: v.optional(v.string()), // CLI device that uploaded the session
+    date: v.string(), // YYYY-MM-DD format (user's local timezone, day the session started)
+    utcDate: v.string(), // YYYY-MM-DD format (UTC, day the session started)
+    startedAt: v.number(),
+    endedAt: v.number(),
+    durationSeconds: v.number(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    cacheCreationTokens: v.number(),
+    cacheReadTokens: v.number(),
+    totalTokens: v.number(),
+    cost: v.number(), // 0 when costHidden
+    costHidden: v.optional(v.boolean()), // Cost withheld by the uploader's privacy settings
+    modelsUsed: v.array(v.string()),
+    reason: v.optional(v.string()), // Why the session ended (clear, logout, ...)
+    project: v.optional(v.string()), // Alias or hash, when project sharing is enabled
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_session", ["userId", "sessionId"])
+    .index("by_utc_date", ["utcDate"]),
+
   // API keys for CLI authentication
   apiKeys: defineTable({
     userId: v.id("users"),
@@ -48,6 +117,24 @@ export default defineSchema({
     .index("by_hash", ["keyHash"])
     .index("by_prefix", ["keyPrefix"]),
 
+  // Pending CLI logins using the device-code flow (`ccrank login`)
+  deviceCodes: defineTable({
+    deviceCodeHash: v.string(), // SHA-256 of the secret code the CLI polls with
+    userCode: v.string(), // Short code the user confirms on /activate (e.g. "BCDF-GHJK")
+    status: v.union(
+      v.literal("pending"),
+      v.literal("approved"),
+      v.literal("denied"),
+      v.literal("consumed")
+    ),
+    userId: v.optional(v.id("users")), // Set when approved
+    createdAt: v.number(),
+    expiresAt: v.number(),
+    lastPolledAt: v.optional(v.number()),
+  })
+    .index("by_device_code_hash", ["deviceCodeHash"])
+    .index("by_user_code", ["userCode"]),
+
   // Insights reports uploaded by users
   insightsReports: defineTable({
     userId: v.id("users"),
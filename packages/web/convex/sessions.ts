@@ -0,0 +1,161 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+
+// Maximum reasonable values for validation
+const MAX_SESSION_TOKENS = 1_000_000_000; // 1B tokens per session
+const MAX_SESSION_COST = 100_000; // $100,000 per session
+const MAX_SESSION_SECONDS = 31 * 24 * 60 * 60; // A month
+
+/**
+ * Record a Claude Code session for a user.
+ * Sessions can end more than once (e.g. after being resumed), so an existing
+ * record with the same session ID is replaced.
+ */
+export const recordSession = mutation({
+  args: {
+    userId: v.id("users"),
+    deviceId: v.optional(v.string()),
+    session: v.object({
+      sessionId: v.string(),
+      date: v.string(),
+      utcDate: v.string(),
+      startedAt: v.number(),
+      endedAt: v.number(),
+      durationSeconds: v.number(),
+      inputTokens: v.number(),
+      outputTokens: v.number(),
+      cacheCreationTokens: v.number(),
+      cacheReadTokens: v.number(),
+      totalTokens: v.number(),
+      cost: v.optional(v.number()), // Omitted when the uploader hides costs
+      modelsUsed: v.array(v.string()),
+      reason: v.optional(v.string()),
+      project: v.optional(v.string()),
+    }),
+  },
+  handler: async (ctx, args) => {
+    const { session } = args;
+    const tokens = [session.inputTokens, session.outputTokens, session.cacheCreationTokens, session.cacheReadTokens, session.totalTokens];
+    if (tokens.some((value) => value < 0) || (session.cost ?? 0) < 0 || session.durationSeconds < 0) {
+      throw new Error("Invalid session: values cannot be negative");
+    }
+    if (session.totalTokens > MAX_SESSION_TOKENS || (session.cost ?? 0) > MAX_SESSION_COST) {
+      throw new Error("Invalid session: usage exceeds the maximum allowed");
+    }
+    if (session.durationSeconds > MAX_SESSION_SECONDS) {
+      throw new Error("Invalid session: duration exceeds the maximum allowed");
+    }
+
+    const record = {
+      userId: args.userId,
+      deviceId: args.deviceId,
+      ...session,
+      cost: session.cost ?? 0,
+      costHidden: session.cost === undefined ? true : undefined,
+      updatedAt: Date.now(),
+    };
+
+    const existing = await ctx.db
+      .query("sessions")
+      .withIndex("by_user_session", (q) => q.eq("userId", args.userId).eq("sessionId", session.sessionId))
+      .unique();
+
+    if (existing) {
+      await ctx.db.replace(existing._id, record);
+      return { sessionId: existing._id, updated: true };
+    }
+
+    const sessionId = await ctx.db.insert("sessions", record);
+    return { sessionId, updated: false };
+  },
+});
+
+type SessionsPerDay = {
+  date: string;
+  sessions: number;
+  activeUsers: number;
+  totalDurationSeconds: number;
+  averageDurationSeconds: number;
+};
+
+/**
+ * Count sessions per UTC day (the day each session started).
+ */
+function countSessionsPerDay(sessions: Doc<"sessions">[]): SessionsPerDay[] {
+  const byDate = new Map<string, { sessions: number; users: Set<string>; totalDurationSeconds: number }>();
+
+  for (const session of sessions) {
+    const existing = byDate.get(session.utcDate);
+    if (existing) {
+      existing.sessions += 1;
+      existing.users.add(session.userId);
+      existing.totalDurationSeconds += session.durationSeconds;
+    } else {
+      byDate.set(session.utcDate, {
+        sessions: 1,
+        users: new Set([session.userId]),
+        totalDurationSeconds: session.durationSeconds,
+      });
+    }
+  }
+
+  return Array.from(byDate.entries())
+    .map(([date, data]) => ({
+      date,
+      sessions: data.sessions,
+      activeUsers: data.users.size,
+      totalDurationSeconds: data.totalDurationSeconds,
+      averageDurationSeconds: Math.round(data.totalDurationSeconds / data.sessions),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Sessions per day across all users, or one Slack team, over a date range.
+ */
+export const getSessionsPerDay = query({
+  args: {
+    startDate: v.string(),
+    endDate: v.string(),
+    teamId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    let sessions = await ctx.db
+      .query("sessions")
+      .withIndex("by_utc_date", (q) => q.gte("utcDate", args.startDate).lte("utcDate", args.endDate))
+      .collect();
+
+    if (args.teamId) {
+      const members = await ctx.db
+        .query("users")
+        .withIndex("by_team", (q) => q.eq("slackTeamId", args.teamId!))
+        .collect();
+      const memberIds = new Set<string>(members.map((member) => member._id));
+      sessions = sessions.filter((session) => memberIds.has(session.userId));
+    }
+
+    return countSessionsPerDay(sessions);
+  },
+});
+
+/**
+ * A user's sessions per day over a date range.
+ */
+export const getUserSessionsPerDay = query({
+  args: {
+    userId: v.id("users"),
+    startDate: v.string(),
+    endDate: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const sessions = await ctx.db
+      .query("sessions")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+
+    return countSessionsPerDay(
+      sessions.filter((session) => session.utcDate >= args.startDate && session.utcDate <= args.endDate)
+    );
+  },
+});
@@ -1,10 +1,31 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
 
 // Maximum reasonable values for validation
 const MAX_DAILY_TOKENS = 1_000_000_000; // 1B tokens per day
 const MAX_DAILY_COST = 100_000; // $100,000 per day
 
+// Per-model token and cost breakdown for a single day (cost is omitted when hidden)
+const modelBreakdownValidator = v.object({
+  modelName: v.string(),
+  inputTokens: v.number(),
+  outputTokens: v.number(),
+  cacheCreationTokens: v.number(),
+  cacheReadTokens: v.number(),
+  cost: v.optional(v.number()),
+});
+
+// Per-project token and cost breakdown for a single day (labelled on the client)
+const projectBreakdownValidator = v.object({
+  project: v.string(),
+  inputTokens: v.number(),
+  outputTokens: v.number(),
+  cacheCreationTokens: v.number(),
+  cacheReadTokens: v.number(),
+  cost: v.optional(v.number()),
+});
+
 /**
  * Validate stats entry values are within reasonable bounds.
  */
@@ -14,12 +35,14 @@ function validateStatsEntry(entry: {
   cacheCreationTokens: number;
   cacheReadTokens: number;
   totalTokens: number;
-  totalCost: number;
+  totalCost?: number; // Omitted when the uploader hides costs
 }): { valid: boolean; error?: string } {
+  const totalCost = entry.totalCost ?? 0;
+
   // Check for negative values
   if (entry.inputTokens < 0 || entry.outputTokens < 0 ||
       entry.cacheCreationTokens < 0 || entry.cacheReadTokens < 0 ||
-      entry.totalTokens < 0 || entry.totalCost < 0) {
+      entry.totalTokens < 0 || totalCost < 0) {
     return { valid: false, error: "Token counts and costs cannot be negative" };
   }
 
@@ -28,7 +51,7 @@ function validateStatsEntry(entry: {
     return { valid: false, error: `Total tokens exceeds maximum allowed (${MAX_DAILY_TOKENS})` };
   }
 
-  if (entry.totalCost > MAX_DAILY_COST) {
+  if (totalCost > MAX_DAILY_COST) {
     return { valid: false, error: `Total cost exceeds maximum allowed ($${MAX_DAILY_COST})` };
   }
 
@@ -50,13 +73,14 @@ export const recordDailyStats = mutation({
     totalTokens: v.number(),
     totalCost: v.number(),
     modelsUsed: v.array(v.string()),
+    deviceId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    // Check if stats already exist for this user+date
+    // Check if stats already exist for this user+device+date
     const existingStats = await ctx.db
       .query("dailyStats")
-      .withIndex("by_user_date", (q) =>
-        q.eq("userId", args.userId).eq("date", args.date)
+      .withIndex("by_user_device_date", (q) =>
+        q.eq("userId", args.userId).eq("deviceId", args.deviceId).eq("date", args.date)
       )
       .unique();
 
@@ -69,6 +93,7 @@ export const recordDailyStats = mutation({
         cacheReadTokens: args.cacheReadTokens,
         totalTokens: args.totalTokens,
         totalCost: args.totalCost,
+        costHidden: undefined,
         modelsUsed: args.modelsUsed,
         updatedAt: Date.now(),
       });
@@ -79,6 +104,7 @@ export const recordDailyStats = mutation({
     const statsId = await ctx.db.insert("dailyStats", {
       userId: args.userId,
       date: args.date,
+      deviceId: args.deviceId,
       inputTokens: args.inputTokens,
       outputTokens: args.outputTokens,
       cacheCreationTokens: args.cacheCreationTokens,
@@ -120,6 +146,27 @@ export const getUserStats = query({
   },
 });
 
+/**
+ * Get a user's per-model stats for a date range (one row per device, model and day).
+ */
+export const getUserDailyModelStats = query({
+  args: {
+    userId: v.id("users"),
+    startDate: v.string(), // YYYY-MM-DD
+    endDate: v.string(), // YYYY-MM-DD
+  },
+  handler: async (ctx, args) => {
+    const stats = await ctx.db
+      .query("dailyModelStats")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+
+    return stats
+      .filter((s) => s.date >= args.startDate && s.date <= args.endDate)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.modelName.localeCompare(b.modelName));
+  },
+});
+
 /**
  * Get all stats for a specific date.
  */
@@ -139,8 +186,13 @@ export const getStatsByDate = query({
 
 /**
  * Batch record stats for multiple days.
- * Deletes all existing stats for the user and replaces with new data.
- * This ensures the database always mirrors the user's local data exactly.
+ * Deletes all existing stats for the user's device and replaces with new data.
+ * This ensures the database always mirrors each device's local data exactly,
+ * while other devices' rows are kept (the leaderboard sums across devices).
+ * Legacy rows without a deviceId are treated as belonging to whichever device
+ * syncs next, so upgraded CLIs don't double count them.
+ * With `partial`, only the dates included in the batch are replaced and
+ * all other days are left untouched (used by incremental CLI syncs).
  */
 export const batchRecordStats = mutation({
   args: {
@@ -155,10 +207,14 @@ export const batchRecordStats = mutation({
         cacheCreationTokens: v.number(),
         cacheReadTokens: v.number(),
         totalTokens: v.number(),
-        totalCost: v.number(),
+        totalCost: v.optional(v.number()), // Omitted when the uploader hides costs
         modelsUsed: v.array(v.string()),
+        modelBreakdowns: v.optional(v.array(modelBreakdownValidator)),
+        projectBreakdowns: v.optional(v.array(projectBreakdownValidator)),
       })
     ),
+    partial: v.optional(v.boolean()),
+    deviceId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     // Validate all stats entries before processing
@@ -167,19 +223,61 @@ export const batchRecordStats = mutation({
       if (!validation.valid) {
         throw new Error(`Invalid stats entry for ${stat.date}: ${validation.error}`);
       }
+      for (const model of stat.modelBreakdowns ?? []) {
+        if (model.inputTokens < 0 || model.outputTokens < 0 ||
+            model.cacheCreationTokens < 0 || model.cacheReadTokens < 0 || (model.cost ?? 0) < 0) {
+          throw new Error(`Invalid model breakdown for ${stat.date} (${model.modelName}): values cannot be negative`);
+        }
+      }
+      for (const project of stat.projectBreakdowns ?? []) {
+        if (project.inputTokens < 0 || project.outputTokens < 0 ||
+            project.cacheCreationTokens < 0 || project.cacheReadTokens < 0 || (project.cost ?? 0) < 0) {
+          throw new Error(`Invalid project breakdown for ${stat.date} (${project.project}): values cannot be negative`);
+        }
+      }
     }
 
     const now = Date.now();
 
-    // Delete all existing stats for this user
-    const existingStats = await ctx.db
-      .query("dailyStats")
-      .withIndex("by_user", (q) => q.eq("userId", args.userId))
-      .collect();
+    // Delete existing stats for this user's device (only the uploaded dates when partial)
+    const isReplaceable = (stat: { deviceId?: string }) =>
+      stat.deviceId === undefined || stat.deviceId === args.deviceId;
+
+    let existingStats = (
+      await ctx.db
+        .query("dailyStats")
+        .withIndex("by_user", (q) => q.eq("userId", args.userId))
+        .collect()
+    ).filter(isReplaceable);
+    let existingModelStats = (
+      await ctx.db
+        .query("dailyModelStats")
+        .withIndex("by_user", (q) => q.eq("userId", args.userId))
+        .collect()
+    ).filter(isReplaceable);
+    let existingProjectStats = (
+      await ctx.db
+        .query("dailyProjectStats")
+        .withIndex("by_user", (q) => q.eq("userId", args.userId))
+        .collect()
+    ).filter(isReplaceable);
+
+    if (args.partial) {
+      const uploadedDates = new Set(args.stats.map((stat) => stat.date));
+      existingStats = existingStats.filter((stat) => uploadedDates.has(stat.date));
+      existingModelStats = existingModelStats.filter((stat) => uploadedDates.has(stat.date));
+      existingProjectStats = existingProjectStats.filter((stat) => uploadedDates.has(stat.date));
+    }
 
     for (const stat of existingStats) {
       await ctx.db.delete(stat._id);
     }
+    for (const stat of existingModelStats) {
+      await ctx.db.delete(stat._id);
+    }
+    for (const stat of existingProjectStats) {
+      await ctx.db.delete(stat._id);
+    }
 
     // Insert all new stats
     for (const stat of args.stats) {
@@ -188,15 +286,51 @@ export const batchRecordStats = mutation({
         date: stat.date,
         utcDate: stat.utcDate,
         timezoneOffset: stat.timezoneOffset,
+        deviceId: args.deviceId,
         inputTokens: stat.inputTokens,
         outputTokens: stat.outputTokens,
         cacheCreationTokens: stat.cacheCreationTokens,
         cacheReadTokens: stat.cacheReadTokens,
         totalTokens: stat.totalTokens,
-        totalCost: stat.totalCost,
+        totalCost: stat.totalCost ?? 0,
+        costHidden: stat.totalCost === undefined ? true : undefined,
         modelsUsed: stat.modelsUsed,
         updatedAt: now,
       });
+
+      for (const model of stat.modelBreakdowns ?? []) {
+        await ctx.db.insert("dailyModelStats", {
+          userId: args.userId,
+          date: stat.date,
+          utcDate: stat.utcDate,
+          deviceId: args.deviceId,
+          modelName: model.modelName,
+          inputTokens: model.inputTokens,
+          outputTokens: model.outputTokens,
+          cacheCreationTokens: model.cacheCreationTokens,
+          cacheReadTokens: model.cacheReadTokens,
+          cost: model.cost ?? 0,
+          costHidden: model.cost === undefined ? true : undefined,
+          updatedAt: now,
+        });
+      }
+
+      for (const project of stat.projectBreakdowns ?? []) {
+        await ctx.db.insert("dailyProjectStats", {
+          userId: args.userId,
+          date: stat.date,
+          utcDate: stat.utcDate,
+          deviceId: args.deviceId,
+          project: project.project,
+          inputTokens: project.inputTokens,
+          outputTokens: project.outputTokens,
+          cacheCreationTokens: project.cacheCreationTokens,
+          cacheReadTokens: project.cacheReadTokens,
+          cost: project.cost ?? 0,
+          costHidden: project.cost === undefined ? true : undefined,
+          updatedAt: now,
+        });
+      }
     }
 
     return {
@@ -235,6 +369,36 @@ export const deleteStatsByDisplayName = mutation({
       await ctx.db.delete(stat._id);
     }
 
+    // Delete per-model breakdowns as well
+    const modelStats = await ctx.db
+      .query("dailyModelStats")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    for (const stat of modelStats) {
+      await ctx.db.delete(stat._id);
+    }
+
+    // And per-project breakdowns
+    const projectStats = await ctx.db
+      .query("dailyProjectStats")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    for (const stat of projectStats) {
+      await ctx.db.delete(stat._id);
+    }
+
+    // And uploaded sessions
+    const sessions = await ctx.db
+      .query("sessions")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    for (const session of sessions) {
+      await ctx.db.delete(session._id);
+    }
+
     return { success: true, deleted: stats.length, userId: user._id };
   },
 });
@@ -322,6 +486,33 @@ export const cleanupFakeData = mutation({
         }
         deletedStats.push(userStats.length);
 
+        const userModelStats = await ctx.db
+          .query("dailyModelStats")
+          .withIndex("by_user", (q) => q.eq("userId", user._id))
+          .collect();
+
+        for (const stat of userModelStats) {
+          await ctx.db.delete(stat._id);
+        }
+
+        const userProjectStats = await ctx.db
+          .query("dailyProjectStats")
+          .withIndex("by_user", (q) => q.eq("userId", user._id))
+          .collect();
+
+        for (const stat of userProjectStats) {
+          await ctx.db.delete(stat._id);
+        }
+
+        const userSessions = await ctx.db
+          .query("sessions")
+          .withIndex("by_user", (q) => q.eq("userId", user._id))
+          .collect();
+
+        for (const session of userSessions) {
+          await ctx.db.delete(session._id);
+        }
+
         // Delete any API keys for this user
         const userKeys = await ctx.db
           .query("apiKeys")
@@ -375,8 +566,10 @@ export const getUserAggregateStats = query({
       cacheReadTokens: 0,
       totalTokens: 0,
       totalCost: 0,
+      costHidden: false, // Some days' costs were withheld, so totalCost is incomplete
       modelsUsed: new Set<string>(),
-      daysActive: filteredStats.length,
+      // Rows are per device, so count distinct dates
+      daysActive: new Set(filteredStats.map((s) => s.date)).size,
     };
 
     for (const stat of filteredStats) {
@@ -386,6 +579,7 @@ export const getUserAggregateStats = query({
       aggregate.cacheReadTokens += stat.cacheReadTokens;
       aggregate.totalTokens += stat.totalTokens;
       aggregate.totalCost += stat.totalCost;
+      aggregate.costHidden ||= stat.costHidden === true;
       for (const model of stat.modelsUsed) {
         aggregate.modelsUsed.add(model);
       }
@@ -397,3 +591,160 @@ export const getUserAggregateStats = query({
     };
   },
 });
+
+/**
+ * Get a user's usage broken down by model over a date range.
+ * Aggregates per-day model rows into one total per model, sorted by cost.
+ */
+export const getUserModelStats = query({
+  args: {
+    userId: v.id("users"),
+    startDate: v.string(),
+    endDate: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const stats = await ctx.db
+      .query("dailyModelStats")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+
+    const byModel = new Map<
+      string,
+      {
+        modelName: string;
+        inputTokens: number;
+        outputTokens: number;
+        cacheCreationTokens: number;
+        cacheReadTokens: number;
+        cost: number;
+        costHidden: boolean;
+      }
+    >();
+
+    for (const stat of stats) {
+      if (stat.date < args.startDate || stat.date > args.endDate) continue;
+
+      const existing = byModel.get(stat.modelName);
+      if (existing) {
+        existing.inputTokens += stat.inputTokens;
+        existing.outputTokens += stat.outputTokens;
+        existing.cacheCreationTokens += stat.cacheCreationTokens;
+        existing.cacheReadTokens += stat.cacheReadTokens;
+        existing.cost += stat.cost;
+        existing.costHidden ||= stat.costHidden === true;
+      } else {
+        byModel.set(stat.modelName, {
+          modelName: stat.modelName,
+          inputTokens: stat.inputTokens,
+          outputTokens: stat.outputTokens,
+          cacheCreationTokens: stat.cacheCreationTokens,
+          cacheReadTokens: stat.cacheReadTokens,
+          cost: stat.cost,
+          costHidden: stat.costHidden === true,
+        });
+      }
+    }
+
+    return Array.from(byModel.values()).sort((a, b) => b.cost - a.cost);
+  },
+});
+
+type ProjectTotal = {
+  project: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  cost: number;
+  costHidden: boolean;
+};
+
+/**
+ * Sum per-day project rows into one total per project, sorted by cost.
+ */
+function aggregateProjects(stats: Doc<"dailyProjectStats">[]): ProjectTotal[] {
+  const byProject = new Map<string, ProjectTotal>();
+
+  for (const stat of stats) {
+    const totalTokens = stat.inputTokens + stat.outputTokens + stat.cacheCreationTokens + stat.cacheReadTokens;
+    const existing = byProject.get(stat.project);
+    if (existing) {
+      existing.inputTokens += stat.inputTokens;
+      existing.outputTokens += stat.outputTokens;
+      existing.cacheCreationTokens += stat.cacheCreationTokens;
+      existing.cacheReadTokens += stat.cacheReadTokens;
+      existing.totalTokens += totalTokens;
+      existing.cost += stat.cost;
+      existing.costHidden ||= stat.costHidden === true;
+    } else {
+      byProject.set(stat.project, {
+        project: stat.project,
+        inputTokens: stat.inputTokens,
+        outputTokens: stat.outputTokens,
+        cacheCreationTokens: stat.cacheCreationTokens,
+        cacheReadTokens: stat.cacheReadTokens,
+        totalTokens,
+        cost: stat.cost,
+        costHidden: stat.costHidden === true,
+      });
+    }
+  }
+
+  return Array.from(byProject.values()).sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+}
+
+/**
+ * Get a user's usage broken down by project over a date range.
+ * Projects are labelled by the CLI (alias, salted hash, or "other").
+ */
+export const getUserProjectStats = query({
+  args: {
+    userId: v.id("users"),
+    startDate: v.string(),
+    endDate: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const stats = await ctx.db
+      .query("dailyProjectStats")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+
+    return aggregateProjects(
+      stats.filter((stat) => stat.date >= args.startDate && stat.date <= args.endDate)
+    );
+  },
+});
+
+/**
+ * Get a team's usage broken down by project over a date range.
+ * Only aliased projects line up across members (hashes are salted per user),
+ * so hashed and "other" rows are summed into "other" here.
+ */
+export const getTeamProjectStats = query({
+  args: {
+    teamId: v.string(),
+    startDate: v.string(),
+    endDate: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const members = await ctx.db
+      .query("users")
+      .withIndex("by_team", (q) => q.eq("slackTeamId", args.teamId))
+      .collect();
+
+    const stats: Doc<"dailyProjectStats">[] = [];
+    for (const member of members) {
+      const memberStats = await ctx.db
+        .query("dailyProjectStats")
+        .withIndex("by_user", (q) => q.eq("userId", member._id))
+        .collect();
+      for (const stat of memberStats) {
+        if (stat.date < args.startDate || stat.date > args.endDate) continue;
+        stats.push(/^p-[0-9a-f]{12}$/.test(stat.project) ? { ...stat, project: "other" } : stat);
+      }
+    }
+
+    return aggregateProjects(stats);
+  },
+});
@@ -206,11 +206,11 @@ export const mergeDuplicateUsers = mutation({
           .collect();
 
         for (const stat of dupStats) {
-          // Check if primary already has stats for this date
+          // Check if primary already has stats for this device and date
           const existingStat = await ctx.db
             .query("dailyStats")
-            .withIndex("by_user_date", (q) =>
-              q.eq("userId", primaryUser._id).eq("date", stat.date)
+            .withIndex("by_user_device_date", (q) =>
+              q.eq("userId", primaryUser._id).eq("deviceId", stat.deviceId).eq("date", stat.date)
             )
             .unique();
 
@@ -223,6 +223,8 @@ export const mergeDuplicateUsers = mutation({
               cacheReadTokens: Math.max(existingStat.cacheReadTokens, stat.cacheReadTokens),
               totalTokens: Math.max(existingStat.totalTokens, stat.totalTokens),
               totalCost: Math.max(existingStat.totalCost, stat.totalCost),
+              // A known cost from either copy beats a hidden one
+              costHidden: existingStat.costHidden && stat.costHidden ? true : undefined,
             });
             await ctx.db.delete(stat._id);
           } else {
@@ -231,6 +233,67 @@ export const mergeDuplicateUsers = mutation({
           }
         }
 
+        // Move per-model breakdowns for dates the primary user doesn't already cover
+        const dupModelStats = await ctx.db
+          .query("dailyModelStats")
+          .withIndex("by_user", (q) => q.eq("userId", dup._id))
+          .collect();
+
+        const primaryModelStats = await ctx.db
+          .query("dailyModelStats")
+          .withIndex("by_user", (q) => q.eq("userId", primaryUser._id))
+          .collect();
+        const primaryModelDays = new Set(primaryModelStats.map((stat) => `${stat.deviceId ?? ""}:${stat.date}`));
+
+        for (const stat of dupModelStats) {
+          if (primaryModelDays.has(`${stat.deviceId ?? ""}:${stat.date}`)) {
+            await ctx.db.delete(stat._id);
+          } else {
+            await ctx.db.patch(stat._id, { userId: primaryUser._id });
+          }
+        }
+
+        // Same for per-project breakdowns
+        const dupProjectStats = await ctx.db
+          .query("dailyProjectStats")
+          .withIndex("by_user", (q) => q.eq("userId", dup._id))
+          .collect();
+
+        const primaryProjectStats = await ctx.db
+          .query("dailyProjectStats")
+          .withIndex("by_user", (q) => q.eq("userId", primaryUser._id))
+          .collect();
+        const primaryProjectDays = new Set(primaryProjectStats.map((stat) => `${stat.deviceId ?? ""}:${stat.date}`));
+
+        for (const stat of dupProjectStats) {
+          if (primaryProjectDays.has(`${stat.deviceId ?? ""}:${stat.date}`)) {
+            await ctx.db.delete(stat._id);
+          } else {
+            await ctx.db.patch(stat._id, { userId: primaryUser._id });
+          }
+        }
+
+        // Move sessions, unless the primary user already has the same session
+        const dupSessions = await ctx.db
+          .query("sessions")
+          .withIndex("by_user", (q) => q.eq("userId", dup._id))
+          .collect();
+
+        for (const session of dupSessions) {
+          const existingSession = await ctx.db
+            .query("sessions")
+            .withIndex("by_user_session", (q) =>
+              q.eq("userId", primaryUser._id).eq("sessionId", session.sessionId)
+            )
+            .first();
+
+          if (existingSession) {
+            await ctx.db.delete(session._id);
+          } else {
+            await ctx.db.patch(session._id, { userId: primaryUser._id });
+          }
+        }
+
         // Delete duplicate user's API keys
         const dupKeys = await ctx.db
           .query("apiKeys")
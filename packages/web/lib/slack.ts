@@ -7,6 +7,7 @@ export interface LeaderboardEntry {
   slackUserId?: string;
   totalTokens: number;
   totalCost: number;
+  costHidden?: boolean;
 }
 
 export interface SlackBlock {
@@ -133,7 +134,7 @@ export function formatLeaderboard(
       fields: [
         {
           type: "mrkdwn",
-          text: `*Cost:* ${formatCost(entry.totalCost)}`,
+          text: `*Cost:* ${entry.costHidden ? "hidden" : formatCost(entry.totalCost)}`,
         },
         {
           type: "mrkdwn",
@@ -169,6 +170,7 @@ export function formatUserStats(
     totalParticipants: number;
     totalTokens: number;
     totalCost: number;
+    costHidden?: boolean;
     inputTokens: number;
     outputTokens: number;
     cacheCreationTokens: number;
@@ -216,7 +218,7 @@ export function formatUserStats(
     fields: [
       {
         type: "mrkdwn",
-        text: `*Total Cost:*\n${formatCost(stats.totalCost)}`,
+        text: `*Total Cost:*\n${stats.costHidden ? "hidden" : formatCost(stats.totalCost)}`,
       },
       {
         type: "mrkdwn",
@@ -0,0 +1,66 @@
+/**
+ * Whether a string is an IANA time zone name the runtime understands.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in minutes ahead of UTC.
+ * Examples: -480 for PST, 60 for CET
+ */
+function getOffsetAt(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"), value("second"));
+  return Math.round((asUtc - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+/**
+ * Offset that applied at local noon on a date (YYYY-MM-DD) in a time zone,
+ * in minutes ahead of UTC.
+ */
+export function getTimeZoneOffset(localDate: string, timeZone: string): number {
+  const [year, month, day] = localDate.split("-").map(Number);
+  const localNoon = Date.UTC(year, month - 1, day, 12, 0, 0);
+  // Refine once: the offset at the guessed instant settles DST transition days
+  const guess = getOffsetAt(timeZone, localNoon);
+  return getOffsetAt(timeZone, localNoon - guess * 60000);
+}
+
+/**
+ * Convert a local date string (YYYY-MM-DD) to the UTC date of its local noon.
+ * @param localDate - Date in YYYY-MM-DD format (user's local date)
+ * @param offsetMinutes - Offset from UTC in minutes ahead of UTC
+ */
+export function localDateToUtcDate(localDate: string, offsetMinutes: number): string {
+  const [year, month, day] = localDate.split("-").map(Number);
+  // Noon local time avoids DST edge cases
+  const utcNoon = new Date(Date.UTC(year, month - 1, day, 12, 0, 0) - offsetMinutes * 60000);
+  return utcNoon.toISOString().split("T")[0];
+}
+
+/**
+ * Parse a fixed offset like "+0800" or "-0500" to minutes ahead of UTC.
+ */
+export function parseOffset(tzOffset: string): number {
+  const sign = tzOffset.startsWith("-") ? -1 : 1;
+  const hours = parseInt(tzOffset.slice(-4, -2), 10);
+  const minutes = parseInt(tzOffset.slice(-2), 10);
+  return sign * (hours * 60 + minutes);
+}